@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
 // This file is the entry point for the 'fmpromise-dev' command.
-// It will import and start the development server.
+// It hands the command line arguments to the CLI, which starts the dev server by default.
 
-import '../dist/server.js';
\ No newline at end of file
+import '../dist/cli.js';
@@ -0,0 +1,22 @@
+// Runs the README's testing example against the built package, the way a test runner loads it from node_modules.
+// Run `npm run build` first; `npm test` does both.
+import assert from 'node:assert/strict';
+
+// The parts of a browser window fmPromise uses, as jsdom provides them
+globalThis.window = globalThis;
+globalThis.location = {search: ''};
+
+const {createMockFileMaker, dataAPIResult} = await import('@360works/fmpromise/testing');
+const {default: fmPromise} = await import('@360works/fmpromise');
+
+const fm = createMockFileMaker()
+	.handle('fmPromise.evaluate', (expression) => 'Jesse')
+	.handle('fmPromise.executeFileMakerDataAPI', (request) => dataAPIResult({data: [], dataInfo: {totalRecordCount: 0}}));
+
+assert.equal(await fmPromise.evaluate('Get(UserName)'), 'Jesse');
+assert.equal(fm.callsTo('fmPromise.evaluate')[0].parameter, 'Let([] ; Get(UserName))');
+
+const records = await fmPromise.executeFileMakerDataAPIRecords({action: 'read', layouts: 'Contacts', query: [{Name: '*'}]});
+assert.equal(records.length, 0);
+
+console.log('The testing example works against dist.');
@@ -0,0 +1,95 @@
+// cache.ts
+
+import type {FMPromiseService} from './index.js';
+import type {DataAPIReadRequest, DataAPIReadResponse} from './types.js';
+import type {SqlObjectOptions} from './sql.js';
+import {prepareSql} from './sql.js';
+
+/** Options for `fmPromise.cached()`. */
+export interface CacheOptions {
+	/** Milliseconds to keep a result after it arrives. Defaults to 5000; 0 only shares identical in-flight calls. */
+	ttl?: number;
+	/** Tags for `fmPromise.invalidate(tag)`. Reads are always tagged with their layout name. */
+	tags?: string[];
+}
+
+interface CacheEntry {
+	promise: Promise<any>;
+	expires: number;
+	tags: Set<string>;
+}
+
+/** Stores results of identical calls, sharing in-flight promises and expiring settled results after their TTL. */
+export class QueryCache {
+	private readonly entries = new Map<string, CacheEntry>();
+
+	/** Returns the cached (or in-flight) result for a key, or calls `load` and caches its result. Failures are never cached. */
+	get<T>(key: string, ttl: number, tags: string[], load: () => Promise<T>): Promise<T> {
+		const existing = this.entries.get(key);
+		if (existing && existing.expires > Date.now()) {
+			return existing.promise;
+		}
+
+		const entry: CacheEntry = {promise: load(), expires: Infinity, tags: new Set(tags)};
+		this.entries.set(key, entry);
+		entry.promise.then(() => {
+			if (this.entries.get(key) !== entry) return;
+			if (ttl > 0) {
+				entry.expires = Date.now() + ttl;
+			} else {
+				this.entries.delete(key);
+			}
+		}, () => {
+			if (this.entries.get(key) === entry) this.entries.delete(key);
+		});
+		return entry.promise;
+	}
+
+	/** Drops every entry with the tag, or every entry if no tag is given. In-flight calls still settle for their callers. */
+	invalidate(tag?: string): void {
+		if (tag === undefined) {
+			this.entries.clear();
+			return;
+		}
+		for (const [key, entry] of this.entries) {
+			if (entry.tags.has(tag)) this.entries.delete(key);
+		}
+	}
+}
+
+/**
+ * Read methods of `fmPromise` whose results are cached, returned by `fmPromise.cached()`.
+ * Cached results are shared between callers, so treat them as read-only.
+ */
+export class FMCachedQueries {
+	constructor(private readonly service: FMPromiseService, private readonly cache: QueryCache, private readonly options: CacheOptions) {
+	}
+
+	/** A cached `fmPromise.dataRead()`, tagged with the request's layout. */
+	dataRead<T = Record<string, any>, P = {}>(params: DataAPIReadRequest): Promise<DataAPIReadResponse<T, P>> {
+		return this.get(['dataRead', params], [params.layouts], () => this.service.dataRead<T, P>(params));
+	}
+
+	/** A cached `fmPromise.executeSql()`. Tag it with a layout name to have it invalidated by writes to that layout. */
+	executeSql(sqlOrStrings: TemplateStringsArray | string, ...bindings: any[]): Promise<string[][]> {
+		const {sql, bindings: finalBindings} = prepareSql(sqlOrStrings, bindings);
+		return this.get(['executeSql', sql, finalBindings], [], () => this.service.executeSql(sqlOrStrings, ...bindings));
+	}
+
+	/** A cached `fmPromise.executeSqlObjects()`, called as a tagged template or with a SQL string. */
+	executeSqlObjects<T = Record<string, any>>(strings: TemplateStringsArray, ...bindings: any[]): Promise<T[]>;
+	executeSqlObjects<T = Record<string, any>>(sql: string, params?: any[] | Record<string, any>, options?: SqlObjectOptions<T>): Promise<T[]>;
+	executeSqlObjects<T>(sqlOrStrings: TemplateStringsArray | string, ...rest: any[]): Promise<T[]> {
+		if (typeof sqlOrStrings === 'string') {
+			const [params, options] = rest;
+			return this.get(['executeSqlObjects', sqlOrStrings, params, options], [], () => this.service.executeSqlObjects<T>(sqlOrStrings, params, options));
+		}
+		const {sql, bindings} = prepareSql(sqlOrStrings, rest);
+		return this.get(['executeSqlObjects', sql, bindings], [], () => this.service.executeSqlObjects<T>(sqlOrStrings, ...rest));
+	}
+
+	private get<T>(keyParts: any[], tags: string[], load: () => Promise<T>): Promise<T> {
+		const {ttl = 5000, tags: extraTags = []} = this.options;
+		return this.cache.get(JSON.stringify(keyParts), ttl, [...tags, ...extraTags], load);
+	}
+}
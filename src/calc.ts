@@ -0,0 +1,119 @@
+// calc.ts
+
+import {FMPromiseError} from './errors.js';
+
+/**
+ * A piece of FileMaker calculation code. `fmCalc` inserts these as they are, where every other value becomes a literal.
+ * Create them with `fmCalc`, or with `FMCalc.raw()` for code you trust.
+ */
+export class FMCalc {
+	private constructor(readonly text: string) {
+	}
+
+	/** Wraps trusted calculation code, e.g. a field name or function call, so `fmCalc` inserts it unquoted. */
+	static raw(text: string): FMCalc {
+		return new FMCalc(text);
+	}
+
+	toString(): string {
+		return this.text;
+	}
+}
+
+/** Words which can't be used as `Let` variable names. */
+const RESERVED_NAMES = new Set(['and', 'or', 'not', 'xor', 'true', 'false']);
+
+/**
+ * Whether a name can be a `Let` variable: a local name, `$local` or `$$global` variable, or `~name`,
+ * made of letters, digits and underscores and not starting with a digit. Operators, spaces and quotes would change the calculation.
+ */
+export const isValidLetName = (name: string): boolean => {
+	const match = /^(?:\$\$?|~)?([\p{L}_][\p{L}\p{N}_]*)$/u.exec(name);
+	return !!match && !RESERVED_NAMES.has(match[1].toLowerCase());
+};
+
+/** Quotes text as a FileMaker string literal. Backslashes, quotes and pilcrows are escaped, and line breaks become ¶. */
+export const quoteText = (text: string): string => '"' + text
+	.replace(/\\/g, '\\\\')
+	.replace(/"/g, '\\"')
+	.replace(/¶/g, '\\¶')
+	.replace(/\r\n|\r|\n/g, '¶') + '"';
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+/** Formats a number without exponent notation. */
+const formatNumber = (n: number): string => {
+	if (!Number.isFinite(n)) {
+		throw new FMPromiseError({code: -1, message: `${n} can't be used in a FileMaker calculation.`});
+	}
+	const text = String(n);
+	if (!text.includes('e')) return text;
+	// Shift the decimal point of the shortest representation, e.g. 1.5e-7 → 0.00000015
+	const [mantissa, exponent] = text.split('e');
+	const sign = mantissa.startsWith('-') ? '-' : '';
+	const digits = mantissa.replace(/^-/, '').replace('.', '');
+	const e = Number(exponent);
+	return sign + (e < 0 ? '0.' + '0'.repeat(-e - 1) + digits : digits.padEnd(e + 1, '0'));
+};
+
+/**
+ * Converts a JavaScript value into a FileMaker calculation literal:
+ * strings become quoted text, numbers and booleans (`True`/`False`) are inserted as they are, `null` and `undefined`
+ * become empty text, dates become `Timestamp` values in local time (or `Date` values at midnight), and plain objects and arrays become JSON text.
+ * `FMCalc` values are inserted unchanged.
+ */
+export const calcLiteral = (value: any): string => {
+	if (value instanceof FMCalc) return value.text;
+	if (value === null || value === undefined) return '""';
+	switch (typeof value) {
+		case 'string':
+			return quoteText(value);
+		// Negative numbers are parenthesized, so `x - ${-1}` doesn't become `x - -1`
+		case 'number':
+			return value < 0 ? `(${formatNumber(value)})` : formatNumber(value);
+		case 'bigint':
+			return value < 0n ? `(${value})` : value.toString();
+		case 'boolean':
+			return value ? 'True' : 'False';
+	}
+	if (value instanceof Date) {
+		if (isNaN(value.getTime())) {
+			throw new FMPromiseError({code: -1, message: 'An invalid Date can\'t be used in a FileMaker calculation.'});
+		}
+		const date = `Date ( ${value.getMonth() + 1} ; ${value.getDate()} ; ${value.getFullYear()} )`;
+		if (!value.getHours() && !value.getMinutes() && !value.getSeconds() && !value.getMilliseconds()) {
+			return date;
+		}
+		const seconds = value.getSeconds() + (value.getMilliseconds() ? '.' + pad(value.getMilliseconds(), 3) : '');
+		return `Timestamp ( ${date} ; Time ( ${value.getHours()} ; ${value.getMinutes()} ; ${seconds} ) )`;
+	}
+	if (Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null) {
+		// FileMaker's JSON functions read JSON text directly
+		return quoteText(JSON.stringify(value));
+	}
+	throw new FMPromiseError({code: -1, message: `A ${value?.constructor?.name || typeof value} can't be used in a FileMaker calculation.`});
+};
+
+/**
+ * Builds a FileMaker calculation, converting each interpolated value into a literal with `calcLiteral`,
+ * so values can never change the calculation's structure.
+ * @example
+ * const calc = fmCalc`PatternCount ( ${notes} ; ${searchText} )`;
+ * await fmPromise.evaluate(calc);
+ */
+export const fmCalc = (strings: TemplateStringsArray, ...values: any[]): FMCalc =>
+	FMCalc.raw(strings.reduce((calc, text, i) => calc + calcLiteral(values[i - 1]) + text));
+
+/**
+ * Wraps an expression in `Let ( [ name = value ; … ] ; expression )`, with each value as a literal.
+ * Throws an `FMPromiseError` for names which aren't valid `Let` variables.
+ */
+export const fmLet = (vars: Record<string, any>, expression: string | FMCalc): FMCalc => {
+	const declarations = Object.entries(vars).map(([name, value]) => {
+		if (!isValidLetName(name)) {
+			throw new FMPromiseError({code: -1, message: `"${name}" is not a valid FileMaker variable name.`});
+		}
+		return `${name}=${calcLiteral(value)}`;
+	});
+	return FMCalc.raw(`Let([${declarations.join(';')}] ; ${expression})`);
+};
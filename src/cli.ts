@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {generateLayoutTypes, normalizeMetadataDump} from './typeGenerator.js';
+
+const usage = `Usage:
+  fmpromise-dev [serve] [options]                 Start the dev server
+  fmpromise-dev build <module...> [options]       Build modules into single HTML files in the output directory
+  fmpromise-dev build --all [options]             Build every module HTML file in the source directory
+  fmpromise-dev init <module> [options]           Create a new module from a starter template
+  fmpromise-dev init --list                       List the starter templates
+  fmpromise-dev types <metadata.json> [options]   Generate .d.ts interfaces from layout metadata
+
+Options for serve, build and init (these override fmpromise.config.ts / fmpromise.config.json):
+  --config <file>   Read settings from this file instead of fmpromise.config.*
+  --port <n>        Port to listen on (default 4000)
+  --host <name>     Host name or address to listen on (default 127.0.0.1; 0.0.0.0 for all interfaces)
+  --token [token]   Require this token (or a random one) for POST routes and /log
+  --src <dir>       Directory containing your modules (default src)
+  --out-dir <dir>   Directory for built modules (default dist)
+  --cache-dir <dir> Keep /build results in this directory between dev server runs
+  --minify          Minify /build output unless the request says otherwise
+  --no-minify       Don't minify /build output unless the request asks for it (build minifies by default)
+
+Options for "build":
+  --format <format> html (default), dataUrl, calc (a quoted FileMaker calculation literal) or json (with metadata)
+
+Options for "init":
+  --template <name> vanilla (default), react, vue, svelte, data-api, or a template in fmpromise-templates/
+  --var NAME=value  A value for a {{NAME}} placeholder in the template; repeat for several
+
+Options for "types":
+  --out <file>      Write the generated types to a file instead of stdout
+  --layout <name>   Layout name, when the JSON is a single dataMeta() response
+`;
+
+/** Returns the value following a `--flag` argument, if present. */
+const flagValue = (args: string[], flag: string): string | undefined => {
+	const index = args.indexOf(flag);
+	return index >= 0 ? args[index + 1] : undefined;
+};
+
+const runTypes = async (args: string[]) => {
+	const inputFile = args[0];
+	if (!inputFile || inputFile.startsWith('--')) {
+		throw new Error('Missing metadata JSON file.\n\n' + usage);
+	}
+	const json = JSON.parse(await fs.readFile(path.resolve(process.cwd(), inputFile), 'utf8'));
+	const source = generateLayoutTypes(normalizeMetadataDump(json, flagValue(args, '--layout')));
+
+	const outFile = flagValue(args, '--out');
+	if (outFile) {
+		const outPath = path.resolve(process.cwd(), outFile);
+		await fs.mkdir(path.dirname(outPath), {recursive: true});
+		await fs.writeFile(outPath, source, 'utf8');
+		console.log(`Wrote layout types to ${outPath}`);
+	} else {
+		process.stdout.write(source);
+	}
+};
+
+/** Loads the project config with command line overrides, returning the arguments which weren't config flags. */
+const loadConfig = async (args: string[]) => {
+	const {loadDevConfig, parseDevArgs} = await import('./config.js');
+	const {configFile, overrides, rest} = parseDevArgs(args);
+	return {config: await loadDevConfig(overrides, configFile), overrides, rest};
+};
+
+const rejectFlags = (args: string[]) => {
+	const unknown = args.find(arg => arg.startsWith('--'));
+	if (unknown) {
+		throw new Error(`Unknown argument: ${unknown}\n\n${usage}`);
+	}
+};
+
+const runServe = async (args: string[]) => {
+	const {config, rest} = await loadConfig(args);
+	if (rest.length) {
+		throw new Error(`Unknown argument: ${rest[0]}\n\n${usage}`);
+	}
+	const {startServer} = await import('./server.js');
+	startServer(config);
+};
+
+const runBuild = async (args: string[]) => {
+	const {config, overrides, rest} = await loadConfig(args);
+	const all = rest.includes('--all');
+	const formatIndex = rest.indexOf('--format');
+	const format = formatIndex >= 0 ? rest[formatIndex + 1] : 'html';
+	const modules = rest.filter((arg, i) => arg !== '--all' && (formatIndex < 0 || (i !== formatIndex && i !== formatIndex + 1)));
+	rejectFlags(modules);
+	const {isModuleOutputFormat, MODULE_OUTPUT_FORMATS} = await import('./outputFormats.js');
+	if (!isModuleOutputFormat(format)) {
+		throw new Error(`Unknown output format "${format}". Use one of: ${MODULE_OUTPUT_FORMATS.join(', ')}.`);
+	}
+	if (!all && !modules.length) {
+		throw new Error('Specify the modules to build, or --all.\n\n' + usage);
+	}
+
+	const {buildProject, discoverModules} = await import('./projectBuilder.js');
+	const modulePaths = all ? await discoverModules(config) : modules;
+	if (!modulePaths.length) {
+		throw new Error(`No module HTML files found in ${config.srcDir}`);
+	}
+	// Building everything replaces the manifest, so it doesn't list modules which no longer exist
+	const {manifestPath, failures} = await buildProject(modulePaths, config, {minify: overrides.minify ?? true, mergeManifest: !all, format});
+	console.log(`Wrote manifest to ${manifestPath}`);
+	if (failures.length) {
+		throw new Error(`${failures.length} of ${modulePaths.length} module(s) failed to build.`);
+	}
+};
+
+const runInit = async (args: string[]) => {
+	const {config, rest} = await loadConfig(args);
+	const {listTemplates, scaffoldModule} = await import('./scaffolder.js');
+	if (rest.includes('--list')) {
+		for (const template of await listTemplates(config.templatesDir)) {
+			console.log(`  ${template.name.padEnd(16)} ${template.description || ''}${template.source === 'project' ? ' (project)' : ''}`);
+		}
+		return;
+	}
+
+	let template: string | undefined;
+	const variables: Record<string, string> = {};
+	const positional: string[] = [];
+	for (let i = 0; i < rest.length; i++) {
+		if (rest[i] === '--template') {
+			template = rest[++i];
+		} else if (rest[i] === '--var') {
+			const match = /^([A-Z][A-Z0-9_]*)=(.*)$/s.exec(rest[++i] || '');
+			if (!match) {
+				throw new Error(`Invalid --var ${rest[i] ?? ''}: expected NAME=value, with an upper-case NAME.`);
+			}
+			variables[match[1]] = match[2];
+		} else {
+			positional.push(rest[i]);
+		}
+	}
+	rejectFlags(positional);
+	const [originalModulePath] = positional;
+	if (!originalModulePath || positional.length > 1) {
+		throw new Error('Specify a single module path, e.g. "fmpromise-dev init invoices".\n\n' + usage);
+	}
+	const {toModuleHtmlPath} = await import('./projectBuilder.js');
+	const result = await scaffoldModule(toModuleHtmlPath(originalModulePath), originalModulePath, config.srcDir, {template, variables, templatesDir: config.templatesDir});
+	console.log(`Scaffolding complete. Created ${result.created.length} file(s) from the "${result.template}" template.`);
+	result.created.forEach(file => console.log(`  created  ${file}`));
+	result.skipped.forEach(file => console.log(`  skipped  ${file} (already exists)`));
+	if (result.missingDependencies.length || result.missingDevDependencies.length) {
+		console.log(`\nInstall the template's dependencies:`);
+		if (result.missingDependencies.length) console.log(`  npm install ${result.missingDependencies.join(' ')}`);
+		if (result.missingDevDependencies.length) console.log(`  npm install --save-dev ${result.missingDevDependencies.join(' ')}`);
+	}
+	if (result.notes) {
+		console.log(`\n${result.notes}`);
+	}
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+try {
+	if (command === 'types') {
+		await runTypes(args);
+	} else if (command === 'build') {
+		await runBuild(args);
+	} else if (command === 'init') {
+		await runInit(args);
+	} else if (command === 'serve') {
+		await runServe(args);
+	} else if (command === 'help' || command === '--help') {
+		console.log(usage);
+	} else if (command === undefined || command.startsWith('--')) {
+		await runServe(process.argv.slice(2));
+	} else {
+		throw new Error(`Unknown command: ${command}\n\n${usage}`);
+	}
+} catch (error: any) {
+	console.error(error.message || error);
+	process.exitCode = 1;
+}
@@ -0,0 +1,246 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import {AliasOptions, loadConfigFromFile, PluginOption} from 'vite';
+
+/**
+ * Project settings for the dev server and builds, read from `fmpromise.config.ts` (or `.mts`, `.js`, `.mjs`, `.json`)
+ * in the project root. Paths are relative to the project root. Command line flags override these settings.
+ */
+export interface FMPromiseDevConfig {
+	/** The dev server port. Defaults to 4000. */
+	port?: number;
+	/** The host name or address the dev server listens on. Defaults to `127.0.0.1`, so only this machine can connect; use `0.0.0.0` for all interfaces. */
+	host?: string;
+	/**
+	 * A shared secret required by the `POST` routes (`POST /init`, `POST /types`, `POST /log`) and the remote console (`GET /log`, `GET /log/events`).
+	 * `true` generates a random token each time the server starts. Off by default.
+	 */
+	token?: string | boolean;
+	/** The directory containing your modules. Defaults to `src`. */
+	srcDir?: string;
+	/** The directory built modules are written to. Defaults to `dist`. */
+	outDir?: string;
+	/** Whether `/build` minifies when the request doesn't say. Defaults to `false`. */
+	minify?: boolean;
+	/** A directory for keeping `/build` results between dev server runs, e.g. `node_modules/.cache/fmpromise`. Off by default. */
+	buildCacheDir?: string;
+	/**
+	 * A JSON file listing the scripts in your FileMaker file, e.g. the result of `ScriptNames ( Get ( FileName ) )`.
+	 * The dev server warns about scripts declared with `defineScript` which aren't in it.
+	 */
+	scriptList?: string;
+	/** A directory of project-local module templates for `init`, one subdirectory per template. Defaults to `fmpromise-templates`. */
+	templatesDir?: string;
+	/** Paths or patterns the file watcher ignores. Defaults to dotfiles and dot-directories. */
+	watchIgnored?: Array<string | RegExp>;
+	/** Extra Vite plugins, e.g. a framework plugin. Only available in a `.ts` or `.js` config file. */
+	plugins?: PluginOption[];
+	/** Vite `resolve.alias` entries, e.g. `{'@shared': '/src/shared'}`. */
+	alias?: AliasOptions;
+}
+
+/** The dev configuration with defaults applied and paths resolved. */
+export interface ResolvedDevConfig {
+	/** The absolute path of the project root. */
+	root: string;
+	port: number;
+	host: string;
+	token?: string;
+	/** The absolute path of the modules directory. */
+	srcDir: string;
+	/** The absolute path of the build output directory. */
+	outDir: string;
+	minify: boolean;
+	/** The absolute path of the persistent build cache, if enabled. */
+	buildCacheDir?: string;
+	/** The absolute path of the FileMaker script list, if configured. */
+	scriptList?: string;
+	/** The absolute path of the project-local templates directory. */
+	templatesDir: string;
+	watchIgnored: Array<string | RegExp>;
+	plugins: PluginOption[];
+	alias?: AliasOptions;
+	/** The config file the settings were read from, if any. */
+	configFile?: string;
+}
+
+const CONFIG_FILES = ['fmpromise.config.ts', 'fmpromise.config.mts', 'fmpromise.config.js', 'fmpromise.config.mjs', 'fmpromise.config.json'];
+
+/** Gives `fmpromise.config.ts` type checking and editor completion. Returns the config unchanged. */
+export const defineConfig = (config: FMPromiseDevConfig): FMPromiseDevConfig => config;
+
+/** Applies defaults to a config and resolves its paths against the project root. */
+export const resolveDevConfig = (config: FMPromiseDevConfig = {}, root: string = process.cwd(), configFile?: string): ResolvedDevConfig => ({
+	root,
+	port: config.port ?? 4000,
+	host: config.host ?? '127.0.0.1',
+	token: config.token === true ? crypto.randomBytes(16).toString('hex') : config.token || undefined,
+	srcDir: path.resolve(root, config.srcDir ?? 'src'),
+	outDir: path.resolve(root, config.outDir ?? 'dist'),
+	minify: config.minify ?? false,
+	buildCacheDir: config.buildCacheDir ? path.resolve(root, config.buildCacheDir) : undefined,
+	scriptList: config.scriptList ? path.resolve(root, config.scriptList) : undefined,
+	templatesDir: path.resolve(root, config.templatesDir ?? 'fmpromise-templates'),
+	watchIgnored: config.watchIgnored ?? [/(^|[\/\\])\../],
+	plugins: config.plugins ?? [],
+	alias: config.alias,
+	configFile,
+});
+
+/** Checks the types of config values, since a JSON config (or an untyped JS one) can contain anything. */
+const validateConfig = (config: any, source: string): FMPromiseDevConfig => {
+	if (!config || typeof config !== 'object' || Array.isArray(config)) {
+		throw new Error(`${source} must export an object.`);
+	}
+	const expect = (key: string, valid: boolean, description: string) => {
+		if (config[key] !== undefined && !valid) {
+			throw new Error(`Invalid "${key}" in ${source}: expected ${description}.`);
+		}
+	};
+	expect('port', Number.isInteger(config.port) && config.port >= 0 && config.port < 65536, 'a port number');
+	expect('host', typeof config.host === 'string', 'a string');
+	expect('token', typeof config.token === 'boolean' || (typeof config.token === 'string' && /^[A-Za-z0-9_-]+$/.test(config.token)), 'true, or a string of letters, digits, - and _');
+	expect('srcDir', typeof config.srcDir === 'string', 'a string');
+	expect('outDir', typeof config.outDir === 'string', 'a string');
+	expect('minify', typeof config.minify === 'boolean', 'true or false');
+	expect('buildCacheDir', typeof config.buildCacheDir === 'string', 'a string');
+	expect('scriptList', typeof config.scriptList === 'string', 'a string');
+	expect('templatesDir', typeof config.templatesDir === 'string', 'a string');
+	expect('watchIgnored', Array.isArray(config.watchIgnored), 'an array');
+	expect('plugins', Array.isArray(config.plugins), 'an array');
+	expect('alias', typeof config.alias === 'object' && config.alias !== null, 'an object or array');
+	return config;
+};
+
+/** Reads a config file. TypeScript and JavaScript files are bundled and evaluated by Vite. */
+const readConfigFile = async (file: string, root: string): Promise<FMPromiseDevConfig> => {
+	const source = path.relative(root, file) || file;
+	if (file.endsWith('.json')) {
+		return validateConfig(JSON.parse(await fs.readFile(file, 'utf8')), source);
+	}
+	const loaded = await loadConfigFromFile({command: 'serve', mode: 'development'}, file, root, 'silent');
+	if (!loaded) {
+		throw new Error(`Unable to load ${source}.`);
+	}
+	return validateConfig(loaded.config, source);
+};
+
+/** Returns the value following a `--flag` argument, throwing if it's missing. */
+const requiredFlagValue = (args: string[], index: number, flag: string): string => {
+	const value = args[index + 1];
+	if (value === undefined || value.startsWith('--')) {
+		throw new Error(`Missing value for ${flag}.`);
+	}
+	return value;
+};
+
+/**
+ * Parses dev server flags: `--config <file>`, `--port <n>`, `--host <name>`, `--src <dir>`, `--out-dir <dir>`,
+ * `--cache-dir <dir>`, `--token [token]`, and `--minify` / `--no-minify`. Unknown arguments are returned in `rest`.
+ */
+export const parseDevArgs = (args: string[]): { configFile?: string; overrides: FMPromiseDevConfig; rest: string[] } => {
+	const overrides: FMPromiseDevConfig = {};
+	const rest: string[] = [];
+	let configFile: string | undefined;
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		switch (arg) {
+			case '--config':
+				configFile = requiredFlagValue(args, i++, arg);
+				break;
+			case '--port': {
+				const port = Number(requiredFlagValue(args, i++, arg));
+				if (!Number.isInteger(port) || port < 0 || port >= 65536) {
+					throw new Error(`Invalid port: ${args[i]}`);
+				}
+				overrides.port = port;
+				break;
+			}
+			case '--token': {
+				// The value is optional: a bare --token generates a random one
+				const value = args[i + 1];
+				if (value === undefined || value.startsWith('--')) {
+					overrides.token = true;
+				} else {
+					overrides.token = value;
+					i++;
+				}
+				break;
+			}
+			case '--host':
+				overrides.host = requiredFlagValue(args, i++, arg);
+				break;
+			case '--src':
+				overrides.srcDir = requiredFlagValue(args, i++, arg);
+				break;
+			case '--out-dir':
+				overrides.outDir = requiredFlagValue(args, i++, arg);
+				break;
+			case '--cache-dir':
+				overrides.buildCacheDir = requiredFlagValue(args, i++, arg);
+				break;
+			case '--minify':
+				overrides.minify = true;
+				break;
+			case '--no-minify':
+				overrides.minify = false;
+				break;
+			default:
+				rest.push(arg);
+		}
+	}
+	return {configFile, overrides, rest};
+};
+
+/**
+ * Loads the project's dev configuration: defaults, then the config file (an explicit one, or the first `fmpromise.config.*`
+ * found in the project root), then the given overrides from command line flags.
+ */
+export const loadDevConfig = async (overrides: FMPromiseDevConfig = {}, configFile?: string, root: string = process.cwd()): Promise<ResolvedDevConfig> => {
+	let file: string | undefined;
+	if (configFile) {
+		file = path.resolve(root, configFile);
+	} else {
+		for (const name of CONFIG_FILES) {
+			const candidate = path.join(root, name);
+			if (await fs.access(candidate).then(() => true, () => false)) {
+				file = candidate;
+				break;
+			}
+		}
+	}
+	const fileConfig = file ? await readConfigFile(file, root) : {};
+	const definedOverrides = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+	return resolveDevConfig(validateConfig({...fileConfig, ...definedOverrides}, 'the command line arguments'), root, file);
+};
+
+/**
+ * Resolves a path against a directory, throwing an error with the code `EOUTSIDE` if the result is outside it
+ * (through `..` segments or an absolute path).
+ */
+export const resolveInside = (dir: string, relativePath: string): string => {
+	const resolved = path.resolve(dir, relativePath);
+	if (resolved !== dir && !resolved.startsWith(dir + path.sep)) {
+		throw Object.assign(new Error(`Path is outside ${dir}: ${relativePath}`), {code: 'EOUTSIDE'});
+	}
+	return resolved;
+};
+
+/** Lists the files under a source directory as absolute paths, skipping dot-directories, `node_modules` and `excludeDir`, e.g. the output directory. */
+export const listSourceFiles = async (srcDir: string, excludeDir?: string): Promise<string[]> => {
+	const files: string[] = [];
+	const walk = async (dir: string) => {
+		for (const entry of await fs.readdir(dir, {withFileTypes: true})) {
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				if (entry.name.startsWith('.') || entry.name === 'node_modules' || fullPath === excludeDir) continue;
+				await walk(fullPath);
+			} else if (entry.isFile()) {
+				files.push(fullPath);
+			}
+		}
+	};
+	await walk(srcDir);
+	return files;
+};
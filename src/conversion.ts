@@ -0,0 +1,175 @@
+// conversion.ts
+
+import {FMPromiseError} from './errors.js';
+import type {DataAPIMetaDataResponse, FieldMetaData} from './types.js';
+
+/** A FileMaker field result type, as reported by `dataMeta()`. */
+export type FMFieldType = FieldMetaData['result'];
+
+/** Field types keyed by field name. */
+export type FMSchema = Record<string, FMFieldType>;
+
+/** Field types for a layout's fields and for each of its portals. */
+export interface LayoutSchema {
+	fields: FMSchema;
+	portals: Record<string, FMSchema>;
+}
+
+/**
+ * The Data API `dateformats` option: how dates and timestamps are written.
+ * 0: US format (MM/DD/YYYY), the default; 1: the file's locale, which can't be parsed and is left as text; 2: ISO 8601 (YYYY-MM-DD).
+ */
+export type FMDateFormat = 0 | 1 | 2;
+
+/** A container field value, described from the URL FileMaker returns for it. */
+export interface ContainerValue {
+	url: string;
+	fileName: string;
+	extension: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const schemaFromFields = (fields: FieldMetaData[] = []): FMSchema =>
+	Object.fromEntries(fields.map(field => [field.name, field.result]));
+
+/** Builds a `LayoutSchema` from a layout's `dataMeta()` response. */
+export const schemaFromMetadata = (meta: DataAPIMetaDataResponse): LayoutSchema => ({
+	fields: schemaFromFields(meta.response.fieldMetaData),
+	portals: Object.fromEntries(Object.entries(meta.response.portalMetaData || {}).map(([portal, fields]) => [portal, schemaFromFields(fields)])),
+});
+
+/** Parses a date or timestamp written in US or ISO format into a local `Date`. Returns `null` if it doesn't match. */
+const parseDateTime = (value: string, dateformats: FMDateFormat): Date | null => {
+	const datePattern = dateformats === 2 ? '(\\d{4})-(\\d{1,2})-(\\d{1,2})' : '(\\d{1,2})/(\\d{1,2})/(\\d{4})';
+	const match = new RegExp(`^${datePattern}(?:[ T](\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.(\\d+))?)?)?$`).exec(value.trim());
+	if (!match) {
+		return null;
+	}
+	const [, a, b, c, h = '0', mi = '0', s = '0', ms = '0'] = match;
+	const [year, month, day] = dateformats === 2 ? [a, b, c] : [c, a, b];
+	return new Date(+year, +month - 1, +day, +h, +mi, +s, +ms.padEnd(3, '0').slice(0, 3));
+};
+
+/** Describes a container field from its URL. */
+const parseContainer = (url: string): ContainerValue => {
+	let path = url;
+	try {
+		path = new URL(url).pathname;
+	} catch (e) {
+		// Not an absolute URL; use it as-is
+	}
+	const fileName = decodeURIComponent(path.split('/').pop() || '');
+	const dot = fileName.lastIndexOf('.');
+	return {url, fileName, extension: dot > 0 ? fileName.slice(dot + 1).toLowerCase() : ''};
+};
+
+/**
+ * Converts a value returned by FileMaker into a JS value:
+ * numbers become `number | null` (non-numeric text is left alone), dates and timestamps become `Date | null`,
+ * and containers become a `ContainerValue | null`. Empty times become `null`; text is returned unchanged.
+ */
+export const parseFieldValue = (value: any, type: FMFieldType, dateformats: FMDateFormat = 0): any => {
+	if (type === 'text' || value === null || value === undefined) {
+		return value;
+	}
+	if (value === '') {
+		return null;
+	}
+	switch (type) {
+		case 'number': {
+			if (typeof value === 'number') return value;
+			const n = Number(value);
+			return Number.isNaN(n) ? value : n;
+		}
+		case 'date':
+		case 'timeStamp':
+			return dateformats === 1 ? value : parseDateTime(String(value), dateformats) ?? value;
+		case 'container':
+			return parseContainer(String(value));
+		default:
+			return value;
+	}
+};
+
+const formatDate = (date: Date, dateformats: FMDateFormat) => {
+	if (dateformats === 1) {
+		throw new FMPromiseError({code: -1, message: 'Dates can\'t be written in the file\'s locale format (dateformats 1). Use 0 or 2.'});
+	}
+	return dateformats === 2
+		? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+		: `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+};
+
+const formatTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+/**
+ * Converts a JS value into the form FileMaker expects in `fieldData`: `null` becomes an empty string,
+ * `Date` values are formatted for date, time and timestamp fields, and booleans become 1 or 0 in number fields.
+ * @throws {FMPromiseError} For container values, which can't be set through `fieldData`.
+ */
+export const formatFieldValue = (value: any, type: FMFieldType, dateformats: FMDateFormat = 0): string | number => {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	if (type === 'container') {
+		throw new FMPromiseError({code: -1, message: 'Container fields can\'t be set through fieldData.'});
+	}
+	if (value instanceof Date) {
+		switch (type) {
+			case 'date':
+				return formatDate(value, dateformats);
+			case 'time':
+				return formatTime(value);
+			case 'timeStamp':
+				return `${formatDate(value, dateformats)} ${formatTime(value)}`;
+			case 'number':
+				return value.getTime();
+			default:
+				return value.toISOString();
+		}
+	}
+	if (typeof value === 'boolean' && type === 'number') {
+		return value ? 1 : 0;
+	}
+	return typeof value === 'number' ? value : String(value);
+};
+
+/** Looks up a field's type, treating repetition keys like `name(2)` as the field `name`. */
+const typeOf = (schema: FMSchema, key: string): FMFieldType | undefined =>
+	schema[key] ?? schema[key.replace(/\(\d+\)$/, '')];
+
+/**
+ * Converts records to and from FileMaker's text representation using a layout's field types.
+ * Get one for a layout with `fmPromise.converterFor(layout)`, or construct one with an explicit schema.
+ */
+export class FieldConverter {
+	constructor(readonly schema: LayoutSchema, readonly dateformats: FMDateFormat = 0) {
+	}
+
+	/** Converts the values of a `fieldData` object (or portal row, when given the portal's schema). Unknown fields are left alone. */
+	fromFieldData<T = Record<string, any>>(fieldData: Record<string, any>, schema: FMSchema = this.schema.fields): T {
+		const converted: Record<string, any> = {};
+		for (const [key, value] of Object.entries(fieldData)) {
+			const type = typeOf(schema, key);
+			converted[key] = type ? parseFieldValue(value, type, this.dateformats) : value;
+		}
+		return converted as T;
+	}
+
+	/** Converts the rows of a portal, keeping `recordId` and `modId` as they are. */
+	fromPortalRows<R extends Record<string, any>>(portal: string, rows: R[]): R[] {
+		const schema = this.schema.portals[portal] || {};
+		return rows.map(row => this.fromFieldData<R>(row, schema));
+	}
+
+	/** Converts JS values into `fieldData` for `dataCreate()` / `dataUpdate()`. Send the same `dateformats` with the request. */
+	toFieldData(values: Record<string, any>, schema: FMSchema = this.schema.fields): Record<string, string | number> {
+		const fieldData: Record<string, string | number> = {};
+		for (const [key, value] of Object.entries(values)) {
+			const type = typeOf(schema, key) || 'text';
+			fieldData[key] = formatFieldValue(value, type, this.dateformats);
+		}
+		return fieldData;
+	}
+}
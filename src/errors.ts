@@ -0,0 +1,129 @@
+// errors.ts
+
+/**
+ * Error codes with a dedicated `FMPromiseError` subclass.
+ * Numeric codes are FileMaker error codes; string codes are raised by fmPromise itself.
+ */
+export const FMErrorCode = {
+	RecordMissing: 101,
+	FieldMissing: 102,
+	RecordLocked: 301,
+	ModIdMismatch: 306,
+	NoRecordsMatch: 401,
+	SqlError: 'SQL_ERROR',
+	Timeout: 'TIMEOUT',
+	Aborted: 'ABORTED',
+} as const;
+
+export interface FMPromiseErrorDetails {
+	message?: string;
+	code?: string | number;
+	/** The FileMaker script whose call failed, if known. */
+	scriptName?: string;
+}
+
+export class FMPromiseError extends Error {
+	public code?: string | number;
+	public scriptName?: string;
+
+	constructor({message = 'Unknown error', code, scriptName}: FMPromiseErrorDetails) {
+		super(message);
+		this.name = 'FMPromiseError';
+		this.code = code;
+		this.scriptName = scriptName;
+	}
+
+	toString() {
+		return this.code ? `${this.message} (${this.code})` : this.message;
+	}
+}
+
+/** FileMaker error 101: the record is missing, e.g. it was deleted by another user. */
+export class FMRecordMissingError extends FMPromiseError {
+	constructor({message = 'Record is missing', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.RecordMissing, scriptName});
+		this.name = 'FMRecordMissingError';
+	}
+}
+
+/** FileMaker error 102: a field is missing from the layout or table. */
+export class FMFieldMissingError extends FMPromiseError {
+	constructor({message = 'Field is missing', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.FieldMissing, scriptName});
+		this.name = 'FMFieldMissingError';
+	}
+}
+
+/** FileMaker error 301: the record is being modified by another user or window. */
+export class FMRecordLockedError extends FMPromiseError {
+	constructor({message = 'Record is in use by another user', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.RecordLocked, scriptName});
+		this.name = 'FMRecordLockedError';
+	}
+}
+
+/** FileMaker error 306: the `modId` sent with an update or delete doesn't match the record's current modification count. */
+export class FMModIdMismatchError extends FMPromiseError {
+	constructor({message = 'Record modification id does not match', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.ModIdMismatch, scriptName});
+		this.name = 'FMModIdMismatchError';
+	}
+}
+
+/** FileMaker error 401: a find returned no records. Often an expected outcome rather than a failure. */
+export class FMNoRecordsMatchError extends FMPromiseError {
+	constructor({message = 'No records match the request', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.NoRecordsMatch, scriptName});
+		this.name = 'FMNoRecordsMatchError';
+	}
+}
+
+/** `ExecuteSQL` returned `? ERROR`. The message contains FileMaker's error details. */
+export class FMSqlError extends FMPromiseError {
+	constructor({message = 'SQL error', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.SqlError, scriptName});
+		this.name = 'FMSqlError';
+	}
+}
+
+/** A script call did not return a result within its `timeout`. */
+export class FMTimeoutError extends FMPromiseError {
+	constructor({message = 'Script call timed out', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.Timeout, scriptName});
+		this.name = 'FMTimeoutError';
+	}
+}
+
+/** A script call was cancelled through its `AbortSignal`. */
+export class FMAbortError extends FMPromiseError {
+	constructor({message = 'Script call was aborted', scriptName}: FMPromiseErrorDetails = {}) {
+		super({message, code: FMErrorCode.Aborted, scriptName});
+		this.name = 'FMAbortError';
+	}
+}
+
+const errorClassesByCode: Record<string, new (details: FMPromiseErrorDetails) => FMPromiseError> = {
+	[FMErrorCode.RecordMissing]: FMRecordMissingError,
+	[FMErrorCode.FieldMissing]: FMFieldMissingError,
+	[FMErrorCode.RecordLocked]: FMRecordLockedError,
+	[FMErrorCode.ModIdMismatch]: FMModIdMismatchError,
+	[FMErrorCode.NoRecordsMatch]: FMNoRecordsMatchError,
+	[FMErrorCode.SqlError]: FMSqlError,
+	[FMErrorCode.Timeout]: FMTimeoutError,
+	[FMErrorCode.Aborted]: FMAbortError,
+};
+
+/** Creates the `FMPromiseError` subclass matching an error code, such as a Data API message or a rejected script result. */
+export const createFMPromiseError = (details: FMPromiseErrorDetails): FMPromiseError => {
+	const ErrorClass = details.code !== undefined ? errorClassesByCode[String(details.code)] : undefined;
+	return ErrorClass ? new ErrorClass(details) : new FMPromiseError(details);
+};
+
+/**
+ * Checks whether a value is an `FMPromiseError`, optionally with a specific code.
+ * Codes are compared as strings, since FileMaker reports them as `'401'` and fmPromise as `401`.
+ * @example
+ * try { … } catch (e) { if (isFMPromiseError(e, FMErrorCode.NoRecordsMatch)) return []; throw e; }
+ */
+export const isFMPromiseError = (error: unknown, code?: string | number): error is FMPromiseError =>
+	error instanceof FMPromiseError && (code === undefined || String(error.code) === String(code));
@@ -0,0 +1,115 @@
+// events.ts
+
+import {log, redact} from './logging.js';
+
+/** Receives the payload of an event pushed from FileMaker. */
+export type FMEventHandler<T = any> = (payload: T, eventName: string) => void;
+
+/**
+ * Dispatches events pushed from FileMaker through the `fmPromise_Emit` global.
+ * Handlers registered for `'*'` receive every event.
+ */
+export class FMEventEmitter {
+	private readonly handlersByEvent = new Map<string, Set<FMEventHandler>>();
+
+	on<T = any>(eventName: string, handler: FMEventHandler<T>): () => void {
+		let handlers = this.handlersByEvent.get(eventName);
+		if (!handlers) {
+			this.handlersByEvent.set(eventName, handlers = new Set());
+		}
+		handlers.add(handler);
+		return () => this.off(eventName, handler);
+	}
+
+	off<T = any>(eventName: string, handler?: FMEventHandler<T>): void {
+		if (!handler) {
+			this.handlersByEvent.delete(eventName);
+			return;
+		}
+		const handlers = this.handlersByEvent.get(eventName);
+		handlers?.delete(handler);
+		if (handlers && !handlers.size) {
+			this.handlersByEvent.delete(eventName);
+		}
+	}
+
+	once<T = any>(eventName: string, signal?: AbortSignal): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				unsubscribe();
+				reject(signal!.reason);
+			};
+			const unsubscribe = this.on<T>(eventName, (payload) => {
+				unsubscribe();
+				signal?.removeEventListener('abort', onAbort);
+				resolve(payload);
+			});
+			if (signal?.aborted) {
+				onAbort();
+			} else {
+				signal?.addEventListener('abort', onAbort);
+			}
+		});
+	}
+
+	/** Returns an async iterator over events, buffering any which arrive between iterations. */
+	iterate<T = any>(eventName: string, signal?: AbortSignal): AsyncIterableIterator<T> {
+		const buffered: T[] = [];
+		let waiting: ((result: IteratorResult<T>) => void) | null = null;
+		let done = false;
+
+		const finish = (): Promise<IteratorResult<T>> => {
+			done = true;
+			unsubscribe();
+			signal?.removeEventListener('abort', finish);
+			waiting?.({value: undefined, done: true});
+			waiting = null;
+			return Promise.resolve({value: undefined, done: true});
+		};
+		const unsubscribe = this.on<T>(eventName, (payload) => {
+			if (waiting) {
+				waiting({value: payload, done: false});
+				waiting = null;
+			} else {
+				buffered.push(payload);
+			}
+		});
+		signal?.addEventListener('abort', finish);
+		if (signal?.aborted) finish();
+
+		return {
+			next: () => {
+				if (buffered.length) {
+					return Promise.resolve({value: buffered.shift()!, done: false});
+				}
+				if (done) {
+					return Promise.resolve({value: undefined, done: true});
+				}
+				return new Promise(resolve => waiting = resolve);
+			},
+			return: finish,
+			[Symbol.asyncIterator]() {
+				return this;
+			},
+		};
+	}
+
+	/** Parses a JSON payload (when it looks like JSON) and calls the event's handlers, then any `'*'` handlers. */
+	emit(eventName: string, payload?: any): void {
+		if (typeof payload === 'string' && (payload.startsWith('{') || payload.startsWith('['))) {
+			try {
+				payload = JSON.parse(payload);
+			} catch (e) {
+				log.warn(`[fmPromise] Unable to parse JSON payload for event "${eventName}".`, {payload: redact(payload, {kind: 'payload', name: eventName}), error: e});
+			}
+		}
+		const handlers = [...(this.handlersByEvent.get(eventName) || []), ...(eventName !== '*' ? this.handlersByEvent.get('*') || [] : [])];
+		for (const handler of handlers) {
+			try {
+				handler(payload, eventName);
+			} catch (e) {
+				log.error(`[fmPromise] Error in handler for event "${eventName}".`, e);
+			}
+		}
+	}
+}
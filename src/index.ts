@@ -7,14 +7,16 @@ import {
 	DataAPIDeleteResponse,
 	DataAPIMetaDataRequest,
 	DataAPIMetaDataResponse,
+	DataAPIReadByQueryRequest,
 	DataAPIReadRequest,
 	DataAPIReadResponse,
+	DataAPIRecord,
 	DataAPIRecordArray,
 	DataAPIRequest,
 	DataAPIResponse,
 	DataAPIUpdateRequest,
 	DataAPIUpdateResponse
-} from './types';
+} from './types.js';
 
 export type {
 	DataAPICreateRequest,
@@ -23,6 +25,7 @@ export type {
 	DataAPIDeleteResponse,
 	DataAPIMetaDataRequest,
 	DataAPIMetaDataResponse,
+	DataAPIReadByQueryRequest,
 	DataAPIReadRequest,
 	DataAPIReadResponse,
 	DataAPIUpdateRequest,
@@ -30,8 +33,57 @@ export type {
 	DataAPIRecord,
 	DataAPIRecordArray,
 	DataAPIRequest,
-	DataAPIResponse
-} from './types';
+	DataAPIResponse,
+	DataAPIFindRequest,
+	DataAPIPortalArray,
+	FieldMetaData,
+	PortalDataInfo,
+	PortalPaging,
+	PortalRowData,
+	SortObject
+} from './types.js';
+import {
+	createFMPromiseError,
+	FMAbortError,
+	FMErrorCode,
+	FMPromiseError,
+	FMRecordMissingError,
+	FMSqlError,
+	FMTimeoutError,
+	isFMPromiseError
+} from './errors.js';
+import {parseSelectColumns, prepareSql, rowsToObjects, SqlObjectOptions} from './sql.js';
+import {FMEventEmitter, FMEventHandler} from './events.js';
+import {FieldConverter, FMDateFormat, LayoutSchema, schemaFromMetadata} from './conversion.js';
+import {CacheOptions, FMCachedQueries, QueryCache} from './cache.js';
+import {calcLiteral, FMCalc, fmCalc, fmLet} from './calc.js';
+import {configureLogging, FMScriptSpan, FMScriptStats, getStats, log, LoggingOptions, recordSpan, redact, resetStats} from './logging.js';
+
+export {q, escapeFindValue, FMQueryBuilder, FMFieldCondition} from './queryBuilder.js';
+export type {FindValue, TypedSortObject} from './queryBuilder.js';
+export type {SqlColumnType, SqlObjectOptions} from './sql.js';
+export {portalEdits, PortalEditor} from './portalEdits.js';
+export {calcLiteral, FMCalc, fmCalc, fmLet, isValidLetName, quoteText} from './calc.js';
+export type {FMEventHandler} from './events.js';
+export {FieldConverter, formatFieldValue, parseFieldValue, schemaFromMetadata} from './conversion.js';
+export type {ContainerValue, FMDateFormat, FMFieldType, FMSchema, LayoutSchema} from './conversion.js';
+export type {CacheOptions, FMCachedQueries} from './cache.js';
+export type {FMLogLevel, FMPromiseLogger, FMRedactor, FMScriptSpan, FMScriptStats, LoggingOptions, RedactionContext} from './logging.js';
+export {
+	createFMPromiseError,
+	FMAbortError,
+	FMErrorCode,
+	FMFieldMissingError,
+	FMModIdMismatchError,
+	FMNoRecordsMatchError,
+	FMPromiseError,
+	FMRecordLockedError,
+	FMRecordMissingError,
+	FMSqlError,
+	FMTimeoutError,
+	isFMPromiseError
+} from './errors.js';
+export type {FMPromiseErrorDetails} from './errors.js';
 
 
 export type FMPromiseScriptRunningOption = 0 | 1 | 2 | 3 | 4 | 5;
@@ -44,26 +96,67 @@ export interface PerformScriptOptions {
 	runningScript?: FMPromiseScriptRunningOption,
 	/** If performScript will cause the WebViewer to go away, pass `true` here to avoid errors about "Unable to locate web viewer named…" */
 	ignoreResult?: boolean;
+	/** Milliseconds to wait for the script result before rejecting with a `TIMEOUT` error. Defaults to `fmPromise.defaultTimeout`; 0 waits forever. */
+	timeout?: number;
+	/** Rejects the call with an `ABORTED` error when the signal is aborted. FileMaker may still run the script. */
+	signal?: AbortSignal;
 }
 
-class FMPromiseError extends Error {
-	public code?: string | number;
+/**
+ * A FileMaker script declared with `defineScript`, called with its parameter (which is optional when `Param` is `void`)
+ * and per-call options.
+ */
+export interface FMScript<Param = void, Result = any> {
+	(...args: [Param] extends [void] ? [param?: Param, options?: PerformScriptOptions] : [param: Param, options?: PerformScriptOptions]): Promise<Result>;
+	/** The FileMaker script name. */
+	readonly scriptName: string;
+}
 
-	constructor({message = 'Unknown error', code}: { message?: string; code?: string | number }) {
-		super(message);
-		this.name = 'FMPromiseError';
-		this.code = code;
-	}
+/** Options for paging through a found set with `iterateRecords` and `dataReadAll`. */
+export interface DataAPIPaginationOptions {
+	/** The number of records to request per Data API call. Defaults to 100. */
+	pageSize?: number;
+}
 
-	toString() {
-		return this.code ? `${this.message} (${this.code})` : this.message;
-	}
+/**
+ * Resolves a modId conflict for `updateRecord`: given the freshly read record and the changes which failed to apply,
+ * returns the changes to retry with, or `null` to give up and rethrow the conflict.
+ */
+export type UpdateConflictMerge<T> = (latest: DataAPIRecord<T>, changes: Partial<T>, attempt: number) => Partial<T> | null | undefined | Promise<Partial<T> | null | undefined>;
+
+/** Options for `updateRecord`. */
+export interface UpdateRecordOptions<T> {
+	/** Called when the record was modified since it was read. Without it, conflicts are rethrown as `FMModIdMismatchError`. */
+	merge?: UpdateConflictMerge<T>;
+	/** The number of times to re-read, merge and retry after a conflict. Defaults to 3. */
+	retries?: number;
 }
 
 // --- Private Variables ---
 
 let lastPromiseId = 0;
-const callbacksById: { [key: number]: { resolve: (value: any) => void; reject: (reason?: any) => void } } = {};
+const callbacksById: { [key: number]: { scriptName: string; resolve: (value: any) => void; reject: (reason?: any) => void } } = {};
+/**
+ * Ids of calls which timed out or were aborted, so a late result can be recognized and ignored.
+ * Many of them never get an answer, so only the most recent `MAX_ABANDONED_PROMISE_IDS` are kept.
+ */
+const abandonedPromiseIds = new Set<number>();
+const MAX_ABANDONED_PROMISE_IDS = 1000;
+const eventEmitter = new FMEventEmitter();
+const schemasByLayout = new Map<string, Promise<LayoutSchema>>();
+const queryCache = new QueryCache();
+/** The event which carries config changes: FileMaker emits it to update the config, and `onConfigChange` handlers receive the result. */
+const CONFIG_EVENT = 'fmPromise.config';
+
+/** Merges changes into `window.FMPROMISE_CONFIG` and notifies `onConfigChange` handlers. */
+function updateModuleConfig(changes: Record<string, any>): void {
+	if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+		log.warn(`[fmPromise] Ignoring config update which is not an object.`, changes);
+		return;
+	}
+	window.FMPROMISE_CONFIG = {...window.FMPROMISE_CONFIG, ...changes};
+	eventEmitter.emit(CONFIG_EVENT, window.FMPROMISE_CONFIG);
+}
 
 const fmProxy: Promise<any> = Promise.race([
 	new Promise<any>((resolve) => {
@@ -80,13 +173,16 @@ const fmProxy: Promise<any> = Promise.race([
 		}
 	}),
 	new Promise((_, reject) =>
-		setTimeout(() => reject(new FMPromiseError({message: 'FileMaker object not found within 5 seconds.'})), 5000)
+		setTimeout(() => reject(new FMTimeoutError({message: 'FileMaker object not found within 5 seconds.'})), 5000)
 	),
 ]);
 
 // --- Main fmPromise Object ---
 
 export class FMPromiseService {
+	/** Default `timeout` in milliseconds for script calls which don't specify one. 0 (the default) waits forever. */
+	defaultTimeout = 0;
+
 	/** The name of the web viewer object in FileMaker. */
 	get webViewerName() {
 		return window.FMPROMISE_WEB_VIEWER_NAME || new URLSearchParams(window.location.search).get('webViewerName') || 'fmPromiseWebViewer';
@@ -102,53 +198,114 @@ export class FMPromiseService {
 	 */
 	async performScript<T = any>(scriptName: string, scriptParameter: any = null, options: PerformScriptOptions = {}): Promise<T> {
 		const promiseId = ++lastPromiseId;
-		console.log(`[fmPromise] #${promiseId}: Calling script "${scriptName}"`, scriptParameter);
+		log.debug(`[fmPromise] #${promiseId}: Calling script "${scriptName}"`, redact(scriptParameter, {kind: 'parameter', name: scriptName}));
 
 		if (scriptParameter && typeof scriptParameter !== 'string') {
 			scriptParameter = JSON.stringify(scriptParameter);
 		}
 
-		const fm = await fmProxy;
+		const startTime = Date.now();
+		const queuedAt = performance.now();
+		let calledAt = queuedAt;
+		const finishSpan = (outcome: FMScriptSpan['outcome'], rawResult?: any) => recordSpan({
+			promiseId,
+			scriptName,
+			startTime,
+			queueWait: calledAt - queuedAt,
+			duration: performance.now() - calledAt,
+			resultSize: typeof rawResult === 'string' ? rawResult.length : 0,
+			outcome,
+		});
+
+		let fm: any;
+		try {
+			fm = await fmProxy;
+		} catch (e) {
+			calledAt = performance.now();
+			finishSpan('rejected');
+			throw e;
+		}
 
 		let result = await new Promise((resolve, reject) => {
-			callbacksById[promiseId] = {resolve, reject};
+			const {signal} = options;
+			const timeout = options.timeout ?? this.defaultTimeout;
+			let timer: ReturnType<typeof setTimeout> | undefined;
+
+			const cleanUp = () => {
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', onAbort);
+			};
+			const abandon = (error: FMPromiseError) => {
+				cleanUp();
+				delete callbacksById[promiseId];
+				abandonedPromiseIds.add(promiseId);
+				if (abandonedPromiseIds.size > MAX_ABANDONED_PROMISE_IDS) {
+					// Sets iterate in insertion order, so this is the oldest id
+					abandonedPromiseIds.delete(abandonedPromiseIds.values().next().value!);
+				}
+				reject(error);
+			};
+			const onAbort = () => abandon(new FMAbortError({message: `Script "${scriptName}" was aborted.`, scriptName}));
+
+			if (signal?.aborted) {
+				reject(new FMAbortError({message: `Script "${scriptName}" was aborted.`, scriptName}));
+				return;
+			}
+			callbacksById[promiseId] = {
+				scriptName,
+				resolve: (value) => { cleanUp(); resolve(value); },
+				reject: (reason) => { cleanUp(); reject(reason); },
+			};
+			signal?.addEventListener('abort', onAbort);
+			if (timeout > 0) {
+				timer = setTimeout(() => abandon(new FMTimeoutError({
+					message: `Script "${scriptName}" did not return a result within ${timeout}ms.`,
+					scriptName
+				})), timeout);
+			}
 			const meta = JSON.stringify({
 				scriptName, promiseId, webViewerName: this.webViewerName, ignoreResult: options?.ignoreResult || undefined
 			});
 			const comboParam = meta + '\n' + (scriptParameter || '');
 			const option = options.runningScript || 0;
 
+			calledAt = performance.now();
 			if (option === 0) {
 				fm.PerformScript('fmPromise', comboParam);
 			} else {
 				fm.PerformScriptWithOption('fmPromise', comboParam, option.toString());
 			}
+		}).then((value) => {
+			finishSpan('resolved', value);
+			return value;
+		}, (error) => {
+			finishSpan(isFMPromiseError(error, FMErrorCode.Timeout) ? 'timeout' : isFMPromiseError(error, FMErrorCode.Aborted) ? 'aborted' : 'rejected');
+			throw error;
 		});
 
 		if (!options.alwaysReturnString && typeof result === 'string' && (result.startsWith('{') || result.startsWith('['))) {
 			try {
 				result = JSON.parse(result);
 			} catch (e) {
-				console.warn(`[fmPromise] #${promiseId}: Unable to parse JSON result.`, {result, error: e});
+				log.warn(`[fmPromise] #${promiseId}: Unable to parse JSON result.`, {result: redact(result, {kind: 'result', name: scriptName}), error: e});
 			}
 		}
 
-		console.log(`[fmPromise] #${promiseId}: Received result.`, result);
+		log.debug(`[fmPromise] #${promiseId}: Received result.`, redact(result, {kind: 'result', name: scriptName}));
 		return result as T;
 	}
 
 	/**
 	 * Evaluates an expression in FileMaker, optionally within the context of `Let` variables.
+	 * Build expressions containing values with `fmCalc`, which turns them into literals.
 	 * @template T The expected type of the evaluated result.
-	 * @param {string} expression - The calculation expression to evaluate.
-	 * @param {Object<string, any>} [letVars={}] - Key-value pairs for a `Let()` function.
+	 * @param {string | FMCalc} expression - The calculation expression to evaluate.
+	 * @param {Object<string, any>} [letVars={}] - Key-value pairs for a `Let()` function. Values are converted with `calcLiteral`, and names must be valid variable names.
 	 * @param {PerformScriptOptions} [options={}] - Options for the script call.
 	 * @returns {Promise<T>} A promise that resolves with the evaluated result.
 	 */
-	evaluate<T = any>(expression: string, letVars: Record<string, any> = {}, options: PerformScriptOptions = {}): Promise<T> {
-		const letEx = Object.entries(letVars || {}).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(';');
-		const stmt = `Let([${letEx}] ; ${expression})`;
-		return this.performScript('fmPromise.evaluate', stmt, options);
+	evaluate<T = any>(expression: string | FMCalc, letVars: Record<string, any> = {}, options: PerformScriptOptions = {}): Promise<T> {
+		return this.performScript('fmPromise.evaluate', fmLet(letVars || {}, expression).text, options);
 	}
 
 	/**
@@ -165,11 +322,12 @@ export class FMPromiseService {
 	/**
 	 * Finds records in a FileMaker layout.
 	 * @template T The expected type shape of the records' fieldData.
+	 * @template P The row types of the layout's portals, keyed by portal name.
 	 * @param params The complete request object, including `action: 'read'`.
 	 * @returns A promise that resolves with the find response, including a `.toRecords()` helper.
 	 */
-	dataRead<T = Record<string, any>>(params: DataAPIReadRequest): Promise<DataAPIReadResponse<T>> {
-		return this.executeFileMakerDataAPI(params) as Promise<DataAPIReadResponse<T>>;
+	dataRead<T = Record<string, any>, P = {}>(params: DataAPIReadRequest): Promise<DataAPIReadResponse<T, P>> {
+		return this.executeFileMakerDataAPI(params) as Promise<DataAPIReadResponse<T, P>>;
 	}
 
 	/**
@@ -181,6 +339,50 @@ export class FMPromiseService {
 		return this.executeFileMakerDataAPI(params) as Promise<DataAPIUpdateResponse>;
 	}
 
+	/**
+	 * Updates a record read with `toRecords()`, using its `modId` so changes made by someone else since the read are never overwritten.
+	 * If the record was modified in the meantime, it is re-read and passed to `options.merge`, and the merged changes are retried.
+	 * @template T The type shape of the record's fieldData.
+	 * @param layouts The layout the record was read from.
+	 * @param record A record from `toRecords()`, providing the `recordId` and `modId`.
+	 * @param changes The field values to set.
+	 * @param options The merge function and retry count.
+	 * @returns A promise that resolves with the record as re-read after the update.
+	 * @throws {FMModIdMismatchError} If the record was modified and there is no merge function, the merge function gives up, or retries are exhausted.
+	 */
+	async updateRecord<T = Record<string, any>>(layouts: string, record: DataAPIRecord<T>, changes: Partial<T>, options: UpdateRecordOptions<T> = {}): Promise<DataAPIRecord<T>> {
+		const {merge, retries = 3} = options;
+		let current = record;
+		let pending = changes;
+
+		for (let attempt = 0; ; attempt++) {
+			const {recordId, modId, ...fieldData} = pending as Partial<DataAPIRecord<T>>;
+			try {
+				await this.dataUpdate({action: 'update', layouts, recordId: current.recordId, modId: current.modId, fieldData});
+				return await this._readRecord<T>(layouts, current.recordId);
+			} catch (e) {
+				if (!isFMPromiseError(e, FMErrorCode.ModIdMismatch) || !merge || attempt >= retries) {
+					throw e;
+				}
+				current = await this._readRecord<T>(layouts, current.recordId);
+				const merged = await merge(current, pending, attempt + 1);
+				if (!merged) {
+					throw e;
+				}
+				pending = merged;
+			}
+		}
+	}
+
+	/** @internal Reads a single record by id, as returned by `toRecords()`. */
+	private async _readRecord<T>(layouts: string, recordId: string): Promise<DataAPIRecord<T>> {
+		const records = (await this.dataRead<T>({action: 'read', layouts, recordId})).toRecords();
+		if (!records.length) {
+			throw new FMRecordMissingError({message: `Record ${recordId} was not found on layout "${layouts}".`});
+		}
+		return records[0];
+	}
+
 	/**
 	 * Deletes a record from a FileMaker layout.
 	 * @param params The complete request object, including `action: 'delete'`.
@@ -199,6 +401,74 @@ export class FMPromiseService {
 		return this.executeFileMakerDataAPI(params) as Promise<DataAPIMetaDataResponse>;
 	}
 
+	/**
+	 * Fetches metadata for several layouts, keyed by layout name.
+	 * Save the result as JSON for `fmpromise-dev types`, or POST it to the dev server's `/types` route to generate layout interfaces.
+	 * @param layouts The layout names to describe.
+	 * @returns A promise that resolves with each layout's metadata response.
+	 */
+	async dataMetaForLayouts(layouts: string[]): Promise<Record<string, DataAPIMetaDataResponse>> {
+		const dump: Record<string, DataAPIMetaDataResponse> = {};
+		for (const layout of layouts) {
+			dump[layout] = await this.dataMeta({action: 'metaData', layouts: layout});
+		}
+		return dump;
+	}
+
+	/**
+	 * Declares a FileMaker script with its parameter and result types, returning a function which performs it.
+	 * Use a string literal for the name: builds list declared scripts in their manifest, and the dev server checks them against your FileMaker file.
+	 * @template Param The script parameter; `void` (the default) for scripts without one.
+	 * @template Result The expected type of the script result.
+	 * @param defaults Options for every call, e.g. a `timeout`; options passed to a call take precedence.
+	 * @example
+	 * const createInvoice = fmPromise.defineScript<{customerId: string}, {invoiceId: string}>('Invoice.Create');
+	 * const {invoiceId} = await createInvoice({customerId});
+	 */
+	defineScript<Param = void, Result = any>(scriptName: string, defaults: PerformScriptOptions = {}): FMScript<Param, Result> {
+		const script = (param?: Param, options: PerformScriptOptions = {}) => this.performScript<Result>(scriptName, param ?? null, {...defaults, ...options});
+		return Object.assign(script, {scriptName}) as FMScript<Param, Result>;
+	}
+
+	/**
+	 * Returns read methods whose results are cached for `options.ttl` milliseconds (default 5000).
+	 * Identical calls made while one is in flight share a single FileMaker round trip.
+	 * `dataRead` results are tagged with their layout, and are invalidated by `dataCreate`, `dataUpdate` and `dataDelete` on that layout.
+	 * @example
+	 * const teams = await fmPromise.cached({ttl: 60000, tags: ['Team']}).executeSql`select id, name from Team`;
+	 */
+	cached(options: CacheOptions = {}): FMCachedQueries {
+		return new FMCachedQueries(this, queryCache, options);
+	}
+
+	/**
+	 * Drops cached results tagged with a layout name or custom tag, or every cached result if no tag is given.
+	 * @param layoutOrTag The layout name (or tag passed to `cached()`) to invalidate.
+	 */
+	invalidate(layoutOrTag?: string): void {
+		queryCache.invalidate(layoutOrTag);
+	}
+
+	/**
+	 * Returns a `FieldConverter` for a layout, built from its `dataMeta()` field types. The metadata is fetched once per layout.
+	 * Pass it to `toRecords()` to convert dates, timestamps, numbers and containers, and use its `toFieldData()` to write them back.
+	 * @param layout The layout to describe.
+	 * @param dateformats The Data API `dateformats` option used by the requests the converter will be used with.
+	 * @example
+	 * const converter = await fmPromise.converterFor('Invoices');
+	 * const invoices = (await fmPromise.dataRead<Invoice>({action: 'read', layouts: 'Invoices', query})).toRecords(converter);
+	 * await fmPromise.dataUpdate({action: 'update', layouts: 'Invoices', recordId, fieldData: converter.toFieldData({dueDate: new Date()})});
+	 */
+	async converterFor(layout: string, dateformats: FMDateFormat = 0): Promise<FieldConverter> {
+		let schema = schemasByLayout.get(layout);
+		if (!schema) {
+			schema = this.dataMeta({action: 'metaData', layouts: layout}).then(schemaFromMetadata);
+			schemasByLayout.set(layout, schema);
+			schema.catch(() => schemasByLayout.delete(layout));
+		}
+		return new FieldConverter(await schema, dateformats);
+	}
+
 	/**
 	 * The original, overloaded method for executing any FileMaker Data API command.
 	 *
@@ -216,48 +486,58 @@ export class FMPromiseService {
 	 * @template T The expected type shape of the records' `fieldData` when performing a 'read' action.
 	 * @param {DataAPIRequest} params The complete Data API request object. The `action` property within this object determines which Data API type is returned.
 	 * @returns {Promise<DataAPIResponse<T>>} A promise that resolves with a response object specific to the request's `action`.
-	 * @throws {FMPromiseError} If the Data API returns an error message.
+	 * @throws {FMPromiseError} If the Data API returns an error message. Common FileMaker error codes are thrown as
+	 * subclasses, e.g. `FMNoRecordsMatchError` (401) or `FMRecordMissingError` (101).
 	 * @see {@link dataRead}
 	 * @see {@link dataCreate}
 	 * @see {@link dataUpdate}
 	 * @see {@link dataDelete}
 	 * @see {@link dataMeta}
 	 */	async executeFileMakerDataAPI<T = Record<string, any>>(params: DataAPIRequest): Promise<DataAPIResponse<T>> {
-		const result = await this.performScript<any>('fmPromise.executeFileMakerDataAPI', params);
+		const result = await this.performScript<any>('fmPromise.executeFileMakerDataAPI', toDataAPIParams(params));
 
 		if (!result || !result.messages || !result.messages.length) {
 			throw new FMPromiseError({code: -1, message: 'Empty data API response'});
 		}
 		if (result.messages[0].code !== '0') {
-			throw new FMPromiseError(result.messages[0]);
+			throw createFMPromiseError({...result.messages[0], scriptName: 'fmPromise.executeFileMakerDataAPI'});
+		}
+		if (params.action === 'create' || params.action === 'update' || params.action === 'delete') {
+			queryCache.invalidate(params.layouts);
 		}
 
 		if ((params.action === 'read' || !params.action)) {
 			const readResponse = result as DataAPIReadResponse<T>;
 			const self = this;
 
-			readResponse.toRecords = function (): DataAPIRecordArray<T> {
+			readResponse.toRecords = function (converter?: FieldConverter): DataAPIRecordArray<T> {
 				const responseData = this.response.data || [];
 
 				const arr = responseData.map((record) => {
 					const cleanedPortalData: { [key: string]: any[] } = {};
 					for (const portalKey in record.portalData) {
-						cleanedPortalData[portalKey] = record.portalData[portalKey];
+						const rows = converter
+							? converter.fromPortalRows(portalKey, record.portalData[portalKey])
+							: record.portalData[portalKey];
+						const info = (record.portalDataInfo || []).find((i) => (i.portalObjectName || i.table) === portalKey);
+						cleanedPortalData[portalKey] = Object.defineProperties(rows, {
+							foundCount: {value: info ? info.foundCount : rows.length, enumerable: false},
+							returnedCount: {value: info ? info.returnedCount : rows.length, enumerable: false},
+							table: {value: info ? info.table : portalKey, enumerable: false},
+							database: {value: info?.database, enumerable: false},
+						});
 					}
 
 					return {
-						...record.fieldData,
+						...(converter ? converter.fromFieldData<T>(record.fieldData as Record<string, any>) : record.fieldData),
 						...cleanedPortalData,
 						recordId: record.recordId,
 						modId: record.modId,
 					};
 				});
 
-				const dataInfo = this.response.dataInfo || {totalRecordCount: 0};
-				Object.defineProperties(arr, {
-					totalRecordCount: {value: dataInfo.totalRecordCount, enumerable: false},
-				});
-				return arr as DataAPIRecordArray<T>;
+				const dataInfo = this.response.dataInfo || {totalRecordCount: 0, foundCount: 0};
+				return withRecordCounts(arr as DataAPIRecord<T>[], dataInfo.foundCount, dataInfo.totalRecordCount);
 			};
 			return readResponse;
 		}
@@ -268,56 +548,126 @@ export class FMPromiseService {
 	/**
 	 * A convenience method which calls `fmPromise.dataRead({ action: 'read', ... })` and the `.toRecords()` method on the response.
 	 */
-	async executeFileMakerDataAPIRecords<T>(params: DataAPIReadRequest): Promise<DataAPIRecordArray<T>> {
+	async executeFileMakerDataAPIRecords<T, P = {}>(params: DataAPIReadRequest): Promise<DataAPIRecordArray<T, P>> {
 		if (params.action && params.action !== 'read') {
 			throw new FMPromiseError({message: 'executeFileMakerDataAPIRecords only supports the \'read\' action.'});
 		}
-		const response = await this.dataRead<T>(params);
+		const response = await this.dataRead<T, P>(params);
 		return response.toRecords();
 	}
 
+	/**
+	 * Lazily pages through the found set of a query, requesting one page at a time as records are consumed.
+	 * The request's own `offset` and `limit` (if any) bound the range of the found set which is read.
+	 * A query with no matching records (error 401) simply yields nothing.
+	 * @template T The expected type shape of the records' fieldData.
+	 * @example
+	 * for await (const invoice of fmPromise.iterateRecords<Invoice>({action: 'read', layouts: 'Invoices', query}, {pageSize: 500})) { … }
+	 */
+	async *iterateRecords<T = Record<string, any>, P = {}>(params: DataAPIReadByQueryRequest, options: DataAPIPaginationOptions = {}): AsyncGenerator<DataAPIRecord<T, P>, void, undefined> {
+		for await (const page of this._readPages<T, P>(params, options)) {
+			yield* page;
+		}
+	}
+
+	/**
+	 * Reads every record in the found set of a query, paging through it with `iterateRecords`.
+	 * The returned array's `foundCount` and `totalRecordCount` reflect the whole found set, not a single page.
+	 * @template T The expected type shape of the records' fieldData.
+	 * @returns A promise that resolves with all records; an empty array if no records match.
+	 */
+	async dataReadAll<T = Record<string, any>, P = {}>(params: DataAPIReadByQueryRequest, options: DataAPIPaginationOptions = {}): Promise<DataAPIRecordArray<T, P>> {
+		const records: DataAPIRecord<T, P>[] = [];
+		let foundCount = 0;
+		let totalRecordCount = 0;
+		for await (const page of this._readPages<T, P>(params, options)) {
+			records.push(...page);
+			foundCount = page.foundCount;
+			totalRecordCount = page.totalRecordCount;
+		}
+		return withRecordCounts(records, foundCount, totalRecordCount);
+	}
+
+	/** @internal Yields one `toRecords()` page at a time until the found set (or the request's `limit`) is exhausted. */
+	private async *_readPages<T, P>(params: DataAPIReadByQueryRequest, {pageSize = 100}: DataAPIPaginationOptions): AsyncGenerator<DataAPIRecordArray<T, P>, void, undefined> {
+		let offset = params.offset || 1;
+		let remaining = params.limit ?? Infinity;
+
+		while (remaining > 0) {
+			const limit = Math.min(pageSize, remaining);
+			let page: DataAPIRecordArray<T, P>;
+			try {
+				page = (await this.dataRead<T, P>({...params, offset, limit})).toRecords();
+			} catch (e: any) {
+				if (isFMPromiseError(e, FMErrorCode.NoRecordsMatch)) return;
+				throw e;
+			}
+			if (page.length) yield page;
+
+			offset += page.length;
+			remaining -= page.length;
+			if (page.length < limit || (page.foundCount && offset > page.foundCount)) return;
+		}
+	}
+
 	/**
 	 * Executes a SQL query using FileMaker's `ExecuteSQL` function.
 	 * Can be called as a standard function or as a tagged template literal.
+	 * Array bindings expand to `?, ?, ?` for use with `IN (…)`. When called with a SQL string using `:name`
+	 * placeholders, pass a single object of named values instead of positional bindings.
 	 * @param {TemplateStringsArray | string} sqlOrStrings - The SQL query string or template literal strings.
-	 * @param {...any} bindings - Values to bind to the `?` placeholders.
+	 * @param {...any} bindings - Values to bind to the `?` placeholders, or a single object of named values.
 	 * @returns {Promise<string[][]>} A promise resolving to an array of rows, where each row is an array of strings.
 	 */
 	async executeSql(sqlOrStrings: TemplateStringsArray | string, ...bindings: any[]): Promise<string[][]> { // FIX: Changed return type to string[][]
-		let sql: string;
-		let finalBindings: any[];
+		const {sql, bindings: finalBindings} = prepareSql(sqlOrStrings, bindings);
 
-		if (Array.isArray(sqlOrStrings) && Array.isArray((sqlOrStrings as TemplateStringsArray).raw)) {
-			if (bindings.length !== sqlOrStrings.length - 1) {
-				throw new FMPromiseError({code: -1, message: 'Invalid template literal for executeSql'});
-			}
-			sql = (sqlOrStrings as TemplateStringsArray).join('?').replace(/\n\s*/g, ' ');
-			finalBindings = bindings;
-		} else if (typeof sqlOrStrings === 'string') {
-			sql = sqlOrStrings;
-			finalBindings = bindings;
-		} else {
-			throw new FMPromiseError({
-				code: -1,
-				message: 'Invalid arguments: executeSql must be called with a SQL string, or as a template literal.'
-			});
-		}
-
-		const p = finalBindings.map((o) => ` ; ${JSON.stringify(o)}`).join('');
+		const p = finalBindings.map((o) => ` ; ${calcLiteral(o)}`).join('');
 		const colDelim = `|${Math.random()}|`;
 		const rowDelim = `~${Math.random()}~`;
 
-		const rawData = await this.evaluate<string>(`ExecuteSQLe(${JSON.stringify(sql)} ; "${colDelim}" ; "${rowDelim}"${p})`, undefined, {alwaysReturnString: true});
+		const rawData = await this.evaluate<string>(fmCalc`ExecuteSQLe(${sql} ; ${colDelim} ; ${rowDelim}${FMCalc.raw(p)})`, undefined, {alwaysReturnString: true});
 
 		if (rawData === '' || rawData === null || rawData === undefined) {
 			return [];
 		}
 		if (rawData.startsWith('? ERROR')) {
-			throw new Error(rawData);
+			throw new FMSqlError({message: rawData, scriptName: 'fmPromise.evaluate'});
 		}
 		return rawData.split(rowDelim).map((r) => r.split(colDelim));
 	}
 
+	/**
+	 * Executes a SQL query like `executeSql`, returning each row as an object keyed by the column names
+	 * (or `AS` aliases) in the SELECT list. Call it as a tagged template literal, with a SQL string and bindings,
+	 * or with options to get a tag which converts columns:
+	 * @example
+	 * const teams = await fmPromise.executeSqlObjects<Team>`select id, name from Team where color in (${colors})`;
+	 * const rows = await fmPromise.executeSqlObjects<Team>('select id, founded from Team where id = :id', {id}, {types: {founded: 'date'}});
+	 * const sized = await fmPromise.executeSqlObjects<Team>({types: {size: 'number'}})`select id, count(*) as size from Player group by id`;
+	 * @template T The shape of each row object.
+	 */
+	executeSqlObjects<T = Record<string, any>>(strings: TemplateStringsArray, ...bindings: any[]): Promise<T[]>;
+	executeSqlObjects<T = Record<string, any>>(sql: string, params?: any[] | Record<string, any>, options?: SqlObjectOptions<T>): Promise<T[]>;
+	executeSqlObjects<T = Record<string, any>>(options: SqlObjectOptions<T>): (strings: TemplateStringsArray, ...bindings: any[]) => Promise<T[]>;
+	executeSqlObjects<T>(sqlOrStrings: TemplateStringsArray | string | SqlObjectOptions<T>, ...rest: any[]): any {
+		const run = async (options: SqlObjectOptions<T>, sqlOrStrings: TemplateStringsArray | string, bindings: any[]): Promise<T[]> => {
+			const {sql} = prepareSql(sqlOrStrings, bindings);
+			const columns = options.columns || parseSelectColumns(sql);
+			const rows = await this.executeSql(sqlOrStrings, ...bindings);
+			return rowsToObjects<T>(rows, columns, options.types);
+		};
+
+		if (typeof sqlOrStrings === 'string') {
+			const [params = [], options = {}] = rest;
+			return run(options, sqlOrStrings, Array.isArray(params) ? params : [params]);
+		} else if (Array.isArray(sqlOrStrings)) {
+			return run({}, sqlOrStrings as TemplateStringsArray, rest);
+		}
+		const options = sqlOrStrings as SqlObjectOptions<T>;
+		return (strings: TemplateStringsArray, ...bindings: any[]) => run(options, strings, bindings);
+	}
+
 	/**
 	 * Calls a FileMaker script to perform an "Insert from URL" script step.
 	 * @param {string} url - The URL to fetch/post to.
@@ -352,11 +702,109 @@ export class FMPromiseService {
 		return parseInt(result, 10) || 0; // Ensure it returns a number, defaulting to 0
 	}
 
+	/**
+	 * Registers a handler for events pushed from FileMaker. In FileMaker, use the "Perform JavaScript in Web Viewer" script step
+	 * to call the `fmPromise_Emit` function with an event name and an optional (JSON) payload.
+	 * Register for `'*'` to receive every event.
+	 * @template T The expected type of the event payload.
+	 * @returns A function which removes the handler.
+	 * @example
+	 * fmPromise.on<{recordId: string}>('recordCommitted', ({recordId}) => refresh(recordId));
+	 */
+	on<T = any>(eventName: string, handler: FMEventHandler<T>): () => void {
+		return eventEmitter.on(eventName, handler);
+	}
+
+	/** Removes a handler registered with `on()`, or every handler for the event if none is given. */
+	off<T = any>(eventName: string, handler?: FMEventHandler<T>): void {
+		eventEmitter.off(eventName, handler);
+	}
+
+	/**
+	 * Waits for the next occurrence of an event pushed from FileMaker.
+	 * @returns A promise that resolves with the event payload, or rejects if the signal is aborted first.
+	 */
+	once<T = any>(eventName: string, signal?: AbortSignal): Promise<T> {
+		return eventEmitter.once(eventName, signal);
+	}
+
+	/**
+	 * Iterates over events pushed from FileMaker with `for await`. Events arriving while the loop body runs are buffered.
+	 * The subscription ends when the loop exits or the signal is aborted.
+	 * @example
+	 * for await (const change of fmPromise.events<LayoutChange>('layoutChanged')) { … }
+	 */
+	events<T = any>(eventName: string, signal?: AbortSignal): AsyncIterableIterator<T> {
+		return eventEmitter.iterate(eventName, signal);
+	}
+
+	/**
+	 * Configures fmPromise's logging and tracing. Options which aren't given keep their current value.
+	 * @example
+	 * fmPromise.configureLogging({level: 'warn', redact: (value, {name}) => name === 'Login' ? '[redacted]' : value});
+	 */
+	configureLogging(options: LoggingOptions): void {
+		configureLogging(options);
+	}
+
+	/** Summarizes the timing of recent script calls per script, slowest average duration first. */
+	getStats(): FMScriptStats[] {
+		return getStats();
+	}
+
+	/** Clears the script call timings used by `getStats()`. */
+	resetStats(): void {
+		resetStats();
+	}
+
+	/**
+	 * Returns the module's config: the `config` passed to the dev server's `/build` or `/dev` route (validated against
+	 * the module's `config.schema.json`), with any runtime updates, over the given defaults.
+	 * @template T The shape of the config.
+	 * @example
+	 * const {pageSize, layout} = fmPromise.getConfig<{pageSize: number; layout: string}>({pageSize: 50, layout: 'Invoices'});
+	 */
+	getConfig<T extends object = Record<string, any>>(defaults: Partial<T> = {}): T {
+		return {...defaults, ...window.FMPROMISE_CONFIG} as T;
+	}
+
+	/**
+	 * Changes config values without rebuilding the module, notifying `onConfigChange` handlers. FileMaker can do the same
+	 * by calling `fmPromise_Emit` with the event name `fmPromise.config` and a JSON object of changes.
+	 */
+	updateConfig<T extends object = Record<string, any>>(changes: Partial<T>): void {
+		updateModuleConfig(changes);
+	}
+
+	/**
+	 * Registers a handler for config changes made with `updateConfig` or by FileMaker. It receives the whole config.
+	 * @returns A function which removes the handler.
+	 */
+	onConfigChange<T extends object = Record<string, any>>(handler: (config: T) => void): () => void {
+		return eventEmitter.on<T>(CONFIG_EVENT, handler);
+	}
+
+	/** @internal */
+	private _emit(eventName: string, payload?: any): void {
+		if (eventName === CONFIG_EVENT) {
+			// Called as a global function, so this can't use `this`
+			try {
+				updateModuleConfig(typeof payload === 'string' ? JSON.parse(payload) : payload);
+			} catch (e) {
+				log.warn(`[fmPromise] Unable to parse config update.`, {payload: redact(payload, {kind: 'payload', name: eventName}), error: e});
+			}
+			return;
+		}
+		eventEmitter.emit(eventName, payload);
+	}
+
 	/** @internal */
 	private _resolve(promiseId: number, result: any): void {
 		if (callbacksById[promiseId]) {
 			callbacksById[promiseId].resolve(result);
 			delete callbacksById[promiseId];
+		} else if (abandonedPromiseIds.delete(promiseId)) {
+			log.warn(`[fmPromise] #${promiseId}: Ignoring result which arrived after the call timed out or was aborted.`, redact(result, {kind: 'result'}));
 		}
 	}
 
@@ -369,13 +817,43 @@ export class FMPromiseService {
 			} catch (e) {
 				errorObj = {message: errorString};
 			}
-			console.warn(`[fmPromise] #${promiseId}: Rejected.`, errorObj);
-			callbacksById[promiseId].reject(new FMPromiseError(errorObj));
+			if (!errorObj || typeof errorObj !== 'object') {
+				errorObj = {message: errorString};
+			}
+			log.warn(`[fmPromise] #${promiseId}: Rejected.`, redact(errorObj, {kind: 'error', name: callbacksById[promiseId].scriptName}));
+			callbacksById[promiseId].reject(createFMPromiseError({...errorObj, scriptName: callbacksById[promiseId].scriptName}));
 			delete callbacksById[promiseId];
+		} else if (abandonedPromiseIds.delete(promiseId)) {
+			log.warn(`[fmPromise] #${promiseId}: Ignoring error which arrived after the call timed out or was aborted.`, redact(errorString, {kind: 'error'}));
 		}
 	}
 };
 
+/** Adds the non-enumerable `foundCount` and `totalRecordCount` properties of a `DataAPIRecordArray`. */
+function withRecordCounts<T, P = {}>(records: DataAPIRecord<T, P>[], foundCount: number, totalRecordCount: number): DataAPIRecordArray<T, P> {
+	Object.defineProperties(records, {
+		foundCount: {value: foundCount, enumerable: false},
+		totalRecordCount: {value: totalRecordCount, enumerable: false},
+	});
+	return records as DataAPIRecordArray<T, P>;
+}
+
+/** Converts fmPromise-specific request options, such as `portalPaging`, into Data API request keys. */
+function toDataAPIParams(params: DataAPIRequest): DataAPIRequest {
+	if (!('portalPaging' in params) || !params.portalPaging) {
+		return params;
+	}
+	const {portalPaging, ...rest} = params;
+	const converted: Record<string, any> = rest;
+	// Reads by recordId use the `_offset.<portal>` form; finds use `offset.<portal>`
+	const prefix = 'recordId' in params ? '_' : '';
+	for (const [portal, {offset, limit}] of Object.entries(portalPaging)) {
+		if (offset !== undefined) converted[`${prefix}offset.${portal}`] = offset;
+		if (limit !== undefined) converted[`${prefix}limit.${portal}`] = limit;
+	}
+	return converted as DataAPIRequest;
+}
+
 // --- Global Exports ---
 
 declare global {
@@ -383,8 +861,9 @@ declare global {
 		fmPromise: typeof FMPromiseService;
 		fmPromise_Resolve: (promiseId: number, result: any) => void;
 		fmPromise_Reject: (promiseId: number, errorString: string) => void;
+		fmPromise_Emit: (eventName: string, payload?: any) => void;
 		FMPROMISE_WEB_VIEWER_NAME?: string;
-		FMPROMISE_CONFIG?: any;
+		FMPROMISE_CONFIG?: Record<string, any>;
 	}
 }
 
@@ -396,5 +875,11 @@ globalThis.fmPromise = fmPromise;
 globalThis.fmPromise_Resolve = fmPromise._resolve;
 // @ts-ignore
 globalThis.fmPromise_Reject = fmPromise._reject;
+// @ts-ignore
+globalThis.fmPromise_Emit = fmPromise._emit;
+
+/** `fmPromise.defineScript`, for declaring scripts in their own module. */
+export const defineScript = <Param = void, Result = any>(scriptName: string, defaults?: PerformScriptOptions): FMScript<Param, Result> =>
+	fmPromise.defineScript<Param, Result>(scriptName, defaults);
 
 export default fmPromise;
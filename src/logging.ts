@@ -0,0 +1,145 @@
+// logging.ts
+
+export type FMLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/** Any console-like object. */
+export interface FMPromiseLogger {
+	debug(...args: any[]): void;
+	info(...args: any[]): void;
+	warn(...args: any[]): void;
+	error(...args: any[]): void;
+}
+
+/** What a value passed to the redaction hook is. */
+export interface RedactionContext {
+	kind: 'parameter' | 'result' | 'error' | 'payload';
+	/** The script being called, or the event name for `payload`. */
+	name?: string;
+}
+
+/** Returns the value to log in place of a script parameter, result, error or event payload. */
+export type FMRedactor = (value: any, context: RedactionContext) => any;
+
+/** Timing for a single `performScript` call. Times are in milliseconds. */
+export interface FMScriptSpan {
+	promiseId: number;
+	scriptName: string;
+	/** When the call was made, as a `Date.now()` timestamp. */
+	startTime: number;
+	/** Time spent waiting for the FileMaker object before the script could be called. */
+	queueWait: number;
+	/** Time from calling the script until its result (or error) arrived. */
+	duration: number;
+	/** The length of the raw result string. */
+	resultSize: number;
+	outcome: 'resolved' | 'rejected' | 'timeout' | 'aborted';
+}
+
+/** A summary of the recorded spans for a single script, from `fmPromise.getStats()`. */
+export interface FMScriptStats {
+	scriptName: string;
+	count: number;
+	errors: number;
+	averageDuration: number;
+	p95Duration: number;
+	maxDuration: number;
+	averageQueueWait: number;
+	totalResultSize: number;
+}
+
+export interface LoggingOptions {
+	/** Where log output goes. Defaults to `console`. */
+	logger?: FMPromiseLogger;
+	/** The minimum level to log. Defaults to `debug`, which logs every script call and result. */
+	level?: FMLogLevel;
+	/** Rewrites values before they are logged, e.g. to remove passwords or personal data. */
+	redact?: FMRedactor | null;
+	/** Called with each finished script call, e.g. to forward timings to your own monitoring. */
+	onSpan?: ((span: FMScriptSpan) => void) | null;
+	/** The number of recent spans kept for `getStats()`. Defaults to 500. */
+	maxSpans?: number;
+}
+
+const levels: Record<FMLogLevel, number> = {debug: 0, info: 1, warn: 2, error: 3, silent: 4};
+
+let logger: FMPromiseLogger = console;
+let level: FMLogLevel = 'debug';
+let redactor: FMRedactor | null = null;
+let spanListener: ((span: FMScriptSpan) => void) | null = null;
+let maxSpans = 500;
+const spans: FMScriptSpan[] = [];
+
+export const configureLogging = (options: LoggingOptions): void => {
+	if (options.logger) logger = options.logger;
+	if (options.level) level = options.level;
+	if (options.redact !== undefined) redactor = options.redact;
+	if (options.onSpan !== undefined) spanListener = options.onSpan;
+	if (options.maxSpans !== undefined) {
+		maxSpans = options.maxSpans;
+		spans.splice(0, Math.max(0, spans.length - maxSpans));
+	}
+};
+
+const write = (messageLevel: Exclude<FMLogLevel, 'silent'>, args: any[]) => {
+	if (levels[messageLevel] >= levels[level]) {
+		logger[messageLevel](...args);
+	}
+};
+
+/** The fmPromise log, filtered by the configured level. */
+export const log = {
+	debug: (...args: any[]) => write('debug', args),
+	info: (...args: any[]) => write('info', args),
+	warn: (...args: any[]) => write('warn', args),
+	error: (...args: any[]) => write('error', args),
+};
+
+/** Applies the redaction hook (if any) to a value about to be logged. */
+export const redact = (value: any, context: RedactionContext): any => {
+	if (!redactor) return value;
+	try {
+		return redactor(value, context);
+	} catch (e) {
+		return '[redaction failed]';
+	}
+};
+
+export const recordSpan = (span: FMScriptSpan): void => {
+	spans.push(span);
+	if (spans.length > maxSpans) spans.shift();
+	try {
+		spanListener?.(span);
+	} catch (e) {
+		log.error('[fmPromise] Error in onSpan listener.', e);
+	}
+};
+
+/** Summarizes recorded spans per script, slowest average duration first. */
+export const getStats = (): FMScriptStats[] => {
+	const byScript = new Map<string, FMScriptSpan[]>();
+	for (const span of spans) {
+		const list = byScript.get(span.scriptName) || [];
+		list.push(span);
+		byScript.set(span.scriptName, list);
+	}
+	const stats: FMScriptStats[] = [];
+	for (const [scriptName, list] of byScript) {
+		const durations = list.map(span => span.duration).sort((a, b) => a - b);
+		const sum = (values: number[]) => values.reduce((total, n) => total + n, 0);
+		stats.push({
+			scriptName,
+			count: list.length,
+			errors: list.filter(span => span.outcome !== 'resolved').length,
+			averageDuration: sum(durations) / list.length,
+			p95Duration: durations[Math.min(durations.length - 1, Math.ceil(durations.length * 0.95) - 1)],
+			maxDuration: durations[durations.length - 1],
+			averageQueueWait: sum(list.map(span => span.queueWait)) / list.length,
+			totalResultSize: sum(list.map(span => span.resultSize)),
+		});
+	}
+	return stats.sort((a, b) => b.averageDuration - a.averageDuration);
+};
+
+export const resetStats = (): void => {
+	spans.length = 0;
+};
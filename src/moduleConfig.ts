@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/** The file, next to a module's HTML, which declares the shape of the module's `config`. */
+export const CONFIG_SCHEMA_FILE = 'config.schema.json';
+
+type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema supported for module config: types, object properties, required properties,
+ * additional properties, array items, enums, numeric ranges, string lengths and patterns, and defaults.
+ */
+export interface ModuleConfigSchema {
+	type?: SchemaType | SchemaType[];
+	description?: string;
+	properties?: Record<string, ModuleConfigSchema>;
+	required?: string[];
+	/** `false` rejects properties not listed in `properties`; a schema validates them. */
+	additionalProperties?: boolean | ModuleConfigSchema;
+	items?: ModuleConfigSchema;
+	enum?: any[];
+	minimum?: number;
+	maximum?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	/** Used for a missing object property. */
+	default?: any;
+}
+
+/** The config to inject into a built module, and the schema file it was validated against, if any. */
+export interface PreparedModuleConfig {
+	/** A `<script>` setting `window.FMPROMISE_CONFIG`. */
+	script: string;
+	schemaFile?: string;
+}
+
+const invalidConfig = (message: string) => Object.assign(new Error(message), {code: 'EBADCONFIG'});
+
+const typeOf = (value: any): SchemaType => {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value as SchemaType;
+};
+
+/** Checks a value against a schema, returning a description of each problem. */
+export const validateModuleConfig = (value: any, schema: ModuleConfigSchema, at = 'config'): string[] => {
+	const errors: string[] = [];
+	if (schema.type) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		const actual = typeOf(value);
+		// Integers are numbers too
+		if (!types.includes(actual) && !(actual === 'integer' && types.includes('number'))) {
+			return [`${at}: expected ${types.join(' or ')}, got ${actual === 'integer' ? 'number' : actual}`];
+		}
+	}
+	if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${at}: expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+	}
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: must be at least ${schema.minimum}`);
+		if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: must be at most ${schema.maximum}`);
+	}
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at}: must be at least ${schema.minLength} characters`);
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at}: must be at most ${schema.maxLength} characters`);
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) errors.push(`${at}: must match /${schema.pattern}/`);
+	}
+	if (Array.isArray(value) && schema.items) {
+		value.forEach((item, i) => errors.push(...validateModuleConfig(item, schema.items!, `${at}[${i}]`)));
+	}
+	if (typeOf(value) === 'object') {
+		for (const key of schema.required || []) {
+			if (value[key] === undefined) errors.push(`${at}.${key}: is required`);
+		}
+		for (const [key, propertyValue] of Object.entries(value)) {
+			const propertySchema = schema.properties?.[key];
+			if (propertySchema) {
+				errors.push(...validateModuleConfig(propertyValue, propertySchema, `${at}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${at}.${key}: is not a known setting`);
+			} else if (typeof schema.additionalProperties === 'object') {
+				errors.push(...validateModuleConfig(propertyValue, schema.additionalProperties, `${at}.${key}`));
+			}
+		}
+	}
+	return errors;
+};
+
+/** Fills in the schema's defaults for missing object properties, recursively. */
+export const applyConfigDefaults = (value: any, schema: ModuleConfigSchema): any => {
+	if (typeOf(value) !== 'object' || !schema.properties) {
+		return value;
+	}
+	const result = {...value};
+	for (const [key, propertySchema] of Object.entries(schema.properties)) {
+		if (result[key] === undefined && propertySchema.default !== undefined) {
+			result[key] = structuredClone(propertySchema.default);
+		}
+		if (result[key] !== undefined) {
+			result[key] = applyConfigDefaults(result[key], propertySchema);
+		}
+	}
+	return result;
+};
+
+/**
+ * Serializes a value as a script setting `window.FMPROMISE_CONFIG`. Characters which could end the script element
+ * or break the JavaScript (`<`, `>`, `&`, and the U+2028/U+2029 line separators) are escaped.
+ */
+export const serializeConfigScript = (config: any): string => {
+	const json = JSON.stringify(config)
+		.replace(/</g, '\\u003c')
+		.replace(/>/g, '\\u003e')
+		.replace(/&/g, '\\u0026')
+		.replace(/\u2028/g, '\\u2028')
+		.replace(/\u2029/g, '\\u2029');
+	return `<script>window.FMPROMISE_CONFIG = ${json};</script>`;
+};
+
+/**
+ * Parses a module's `config` JSON, applies defaults from the module's `config.schema.json` (if it has one) and validates it,
+ * throwing an error with the code `EBADCONFIG` if the JSON is malformed, isn't an object, or doesn't match the schema.
+ */
+export const prepareModuleConfig = async (configJsonString: string, moduleDir: string): Promise<PreparedModuleConfig> => {
+	let config: any;
+	try {
+		config = JSON.parse(configJsonString);
+	} catch (e: any) {
+		throw invalidConfig(`The config parameter is not valid JSON: ${e.message}`);
+	}
+	// getConfig() and updateConfig() work with settings objects, so other values would be silently ignored
+	const type = typeOf(config);
+	if (type !== 'object') {
+		throw invalidConfig(`The config parameter must be a JSON object, got ${type === 'integer' ? 'number' : type}.`);
+	}
+
+	const schemaFile = path.join(moduleDir, CONFIG_SCHEMA_FILE);
+	let schema: ModuleConfigSchema;
+	try {
+		schema = JSON.parse(await fs.readFile(schemaFile, 'utf8'));
+	} catch (e: any) {
+		if (e.code === 'ENOENT') {
+			return {script: serializeConfigScript(config)};
+		}
+		throw new Error(`Unable to read ${schemaFile}: ${e.message}`);
+	}
+
+	config = applyConfigDefaults(config, schema);
+	const errors = validateModuleConfig(config, schema);
+	if (errors.length) {
+		throw invalidConfig(`The config doesn't match ${CONFIG_SCHEMA_FILE}:\n${errors.join('\n')}`);
+	}
+	return {script: serializeConfigScript(config), schemaFile};
+};
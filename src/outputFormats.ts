@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import {quoteText} from './calc.js';
+
+/**
+ * How a built module is encoded:
+ * `html` is the single HTML file; `dataUrl` is a `data:text/html;base64,…` URL for a web viewer's URL calculation;
+ * `calc` is a quoted FileMaker calculation string literal; `json` is a `ModuleEnvelope` with the HTML and its metadata.
+ */
+export type ModuleOutputFormat = 'html' | 'dataUrl' | 'calc' | 'json';
+
+export const MODULE_OUTPUT_FORMATS: ModuleOutputFormat[] = ['html', 'dataUrl', 'calc', 'json'];
+
+/** The `json` output format: a module's HTML with what a FileMaker script needs to store and track it. */
+export interface ModuleEnvelope {
+	/** The module path without `/index.html`, e.g. `invoices`. */
+	name: string;
+	/** The `version` of the nearest package.json, or null. */
+	version: string | null;
+	/** The SHA-256 hash of the HTML, as hex. */
+	hash: string;
+	/** When the module was built, as an ISO 8601 timestamp. */
+	buildTime: string;
+	/** The size of the HTML in bytes. */
+	size: number;
+	html: string;
+}
+
+/** Identifies a module in the `json` output format. */
+export interface ModuleInfo {
+	name: string;
+	version: string | null;
+}
+
+export interface ModuleOutput {
+	format: ModuleOutputFormat;
+	body: string;
+	contentType: string;
+	/** A file extension suited to the format, for writing the output to disk. */
+	extension: string;
+}
+
+export const isModuleOutputFormat = (format: any): format is ModuleOutputFormat => MODULE_OUTPUT_FORMATS.includes(format);
+
+/**
+ * Describes a module for the `json` output format. The version is read from the closest package.json
+ * between the module's directory and the project root.
+ */
+export const readModuleInfo = async (moduleHtmlPath: string, srcDir: string, root: string): Promise<ModuleInfo> => {
+	const normalized = moduleHtmlPath.split(path.sep).join('/');
+	const name = normalized.replace(/\/?index\.html$/i, '') || normalized;
+	let dir = path.dirname(path.resolve(srcDir, moduleHtmlPath));
+	for (;;) {
+		try {
+			const {version} = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8'));
+			return {name, version: typeof version === 'string' ? version : null};
+		} catch (e) {
+			// No (readable) package.json here; keep looking towards the project root
+		}
+		const parent = path.dirname(dir);
+		if (dir === root || parent === dir || !dir.startsWith(root)) {
+			return {name, version: null};
+		}
+		dir = parent;
+	}
+};
+
+/** Encodes a built module's HTML in an output format. */
+export const encodeModuleOutput = (html: string, format: ModuleOutputFormat, info: ModuleInfo, buildTime: string = new Date().toISOString()): ModuleOutput => {
+	switch (format) {
+		case 'html':
+			return {format, body: html, contentType: 'text/html', extension: '.html'};
+		case 'dataUrl':
+			return {format, body: 'data:text/html;base64,' + Buffer.from(html, 'utf8').toString('base64'), contentType: 'text/plain', extension: '.dataurl.txt'};
+		case 'calc':
+			return {format, body: quoteText(html), contentType: 'text/plain', extension: '.calc.txt'};
+		case 'json': {
+			const envelope: ModuleEnvelope = {
+				name: info.name,
+				version: info.version,
+				hash: crypto.createHash('sha256').update(html).digest('hex'),
+				buildTime,
+				size: Buffer.byteLength(html),
+				html,
+			};
+			return {format, body: JSON.stringify(envelope), contentType: 'application/json', extension: '.json'};
+		}
+		default:
+			throw new Error(`Unknown output format "${format}". Use one of: ${MODULE_OUTPUT_FORMATS.join(', ')}.`);
+	}
+};
@@ -0,0 +1,73 @@
+// portalEdits.ts
+
+import type {DataAPIUpdateRequest} from './types.js';
+
+type PortalName<P> = keyof P & string;
+
+/** A portal row to modify or delete: any row from a `toRecords()` portal array. */
+interface PortalRowRef {
+	recordId: string | number;
+	modId?: string | number;
+}
+
+/**
+ * Collects portal row additions, changes and deletions for a single `dataUpdate()` call.
+ * `P` maps portal names to row types, as used with `dataRead<T, P>()`.
+ *
+ * @example
+ * const edits = portalEdits<InvoicePortals>()
+ *     .add('LineItems', {'LineItems::product': 'Widget', 'LineItems::qty': 1})
+ *     .modify('LineItems', invoice.LineItems[0], {'LineItems::qty': 3})
+ *     .delete('LineItems', invoice.LineItems[1], invoice.LineItems.table);
+ * await fmPromise.dataUpdate({action: 'update', layouts: 'Invoices', recordId: invoice.recordId, ...edits.toRequest()});
+ */
+export class PortalEditor<P = Record<string, any>> {
+	private readonly portalData: NonNullable<DataAPIUpdateRequest['portalData']> = {};
+	private readonly deleteRelated: string[] = [];
+
+	/** Creates a new related record through the portal. */
+	add<K extends PortalName<P>>(portal: K, fieldData: Partial<P[K]>): this {
+		this.rows(portal).push({...fieldData});
+		return this;
+	}
+
+	/** Changes fields of an existing portal row. Its `modId`, if present, guards against overwriting someone else's edit. */
+	modify<K extends PortalName<P>>(portal: K, row: PortalRowRef, fieldData: Partial<P[K]>): this {
+		const {recordId, modId, ...changes} = fieldData as Partial<P[K]> & Partial<PortalRowRef>;
+		this.rows(portal).push(row.modId !== undefined
+			? {...changes, recordId: row.recordId, modId: row.modId}
+			: {...changes, recordId: row.recordId});
+		return this;
+	}
+
+	/**
+	 * Deletes the related record shown in a portal row.
+	 * @param portal The portal name.
+	 * @param row The row to delete.
+	 * @param tableOccurrence The portal's table occurrence, as given by the portal array's `table` property. Defaults to the portal name.
+	 */
+	delete<K extends PortalName<P>>(portal: K, row: PortalRowRef, tableOccurrence: string = portal): this {
+		this.deleteRelated.push(`${tableOccurrence}.${row.recordId}`);
+		return this;
+	}
+
+	/** Returns the `portalData` and `fieldData` (including `deleteRelated`, merged with any given fields) to spread into a `dataUpdate()` request. */
+	toRequest(fieldData: Record<string, any> = {}): Pick<DataAPIUpdateRequest, 'portalData' | 'fieldData'> {
+		// The Data API requires fieldData on every update, even when only portals change
+		const request: Pick<DataAPIUpdateRequest, 'portalData' | 'fieldData'> = {fieldData: {...fieldData}};
+		if (Object.keys(this.portalData).length) {
+			request.portalData = this.portalData;
+		}
+		if (this.deleteRelated.length) {
+			request.fieldData!.deleteRelated = this.deleteRelated.length === 1 ? this.deleteRelated[0] : [...this.deleteRelated];
+		}
+		return request;
+	}
+
+	private rows(portal: string) {
+		return this.portalData[portal] || (this.portalData[portal] = []);
+	}
+}
+
+/** Starts collecting portal row edits for a record whose portals have the row types `P`. */
+export const portalEdits = <P = Record<string, any>>(): PortalEditor<P> => new PortalEditor<P>();
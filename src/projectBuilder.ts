@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import {buildModule} from './viteBuilder.js';
+import {listSourceFiles, ResolvedDevConfig} from './config.js';
+import type {ModuleOutputFormat} from './outputFormats.js';
+import type {DeclaredScripts} from './scriptManifest.js';
+
+/** An entry in the build manifest, describing one built module. */
+export interface ManifestEntry {
+	/** The output file, relative to the output directory. */
+	file: string;
+	/** The size of the output in bytes. */
+	size: number;
+	/** The SHA-256 hash of the output, as hex. */
+	sha256: string;
+	/** The FileMaker scripts the module declares with `defineScript`. */
+	scripts?: string[];
+}
+
+/** The `fmpromise-manifest.json` written next to the built modules. */
+export interface BuildManifest {
+	buildTime: string;
+	modules: Record<string, ManifestEntry>;
+	/** Every declared FileMaker script, with the modules which declare it. */
+	scripts: DeclaredScripts;
+}
+
+export interface ProjectBuildResult {
+	manifest: BuildManifest;
+	manifestPath: string;
+	failures: { modulePath: string; error: Error }[];
+}
+
+export interface ProjectBuildOptions {
+	/** Defaults to true. */
+	minify?: boolean;
+	/** Keep the entries of other modules already in the manifest, for building only some modules. Defaults to false. */
+	mergeManifest?: boolean;
+	/** The output encoding; formats other than `html` are written with their own extension, e.g. `index.json`. Defaults to `html`. */
+	format?: ModuleOutputFormat;
+}
+
+export const MANIFEST_FILE = 'fmpromise-manifest.json';
+
+const readManifest = async (manifestPath: string): Promise<BuildManifest | null> => {
+	try {
+		return JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+	} catch (e) {
+		return null;
+	}
+};
+
+/** Normalizes a module argument (`invoices` or `invoices/index.html`) into the path of its HTML file, relative to the source directory. */
+export const toModuleHtmlPath = (modulePath: string): string =>
+	modulePath.toLowerCase().endsWith('.html') ? modulePath : path.join(modulePath, 'index.html');
+
+/** Finds every module HTML file under the source directory, skipping dot-directories, `node_modules` and the output directory. */
+export const discoverModules = async (config: ResolvedDevConfig): Promise<string[]> =>
+	(await listSourceFiles(config.srcDir, config.outDir))
+		.filter(file => file.toLowerCase().endsWith('.html'))
+		.map(file => path.relative(config.srcDir, file))
+		.sort();
+
+/**
+ * Builds modules into single HTML files under the output directory and writes a manifest with their sizes and hashes.
+ * A failed module doesn't stop the others; failures are returned, and left out of the manifest.
+ */
+export const buildProject = async (modulePaths: string[], config: ResolvedDevConfig, options: ProjectBuildOptions = {}): Promise<ProjectBuildResult> => {
+	const {minify = true, mergeManifest = false, format = 'html'} = options;
+	const manifestPath = path.join(config.outDir, MANIFEST_FILE);
+	const previousModules = mergeManifest ? await readManifest(manifestPath).then(m => m?.modules || {}) : {};
+	const manifest: BuildManifest = {buildTime: new Date().toISOString(), modules: {...previousModules}, scripts: {}};
+	const failures: ProjectBuildResult['failures'] = [];
+
+	for (const modulePath of modulePaths.map(toModuleHtmlPath)) {
+		try {
+			const {output, scripts} = await buildModule(modulePath, minify, null, config, format);
+			const outFile = modulePath.replace(/\.html$/i, output.extension);
+			const outPath = path.join(config.outDir, outFile);
+			await fs.mkdir(path.dirname(outPath), {recursive: true});
+			await fs.writeFile(outPath, output.body, 'utf8');
+			const entry: ManifestEntry = {
+				file: outFile.split(path.sep).join('/'),
+				size: Buffer.byteLength(output.body),
+				sha256: crypto.createHash('sha256').update(output.body).digest('hex'),
+				scripts,
+			};
+			manifest.modules[modulePath.split(path.sep).join('/')] = entry;
+			console.log(`Built ${entry.file} (${(entry.size / 1024).toFixed(1)} kB, ${entry.sha256.slice(0, 12)})`);
+		} catch (error: any) {
+			delete manifest.modules[modulePath.split(path.sep).join('/')];
+			failures.push({modulePath, error});
+			console.error(`Failed to build ${modulePath}: ${error.message || error}`);
+		}
+	}
+
+	for (const [modulePath, entry] of Object.entries(manifest.modules)) {
+		for (const name of entry.scripts || []) {
+			(manifest.scripts[name] ||= []).push(modulePath);
+		}
+	}
+	manifest.scripts = Object.fromEntries(Object.entries(manifest.scripts).sort(([a], [b]) => a.localeCompare(b)));
+
+	await fs.mkdir(config.outDir, {recursive: true});
+	await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+	return {manifest, manifestPath, failures};
+};
@@ -0,0 +1,183 @@
+// queryBuilder.ts
+
+import type {DataAPIFindRequest, SortObject} from './types.js';
+import {FMPromiseError} from './errors.js';
+
+/** A value which can be used as find criteria. Dates are formatted as MM/DD/YYYY. */
+export type FindValue = string | number | Date;
+
+/** The keys of `T` which can be used as field names. */
+type FieldName<T> = keyof T & string;
+
+/** A sort entry whose field name is constrained to the keys of `T`. */
+export type TypedSortObject<T> = SortObject & { fieldName: FieldName<T> };
+
+// Characters which FileMaker treats as find operators, and which must be escaped to be matched literally.
+const OPERATOR_CHARACTERS = /[\\@*#?!=<>"~…]/g;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Converts a value into find criteria which FileMaker matches literally.
+ * Operator characters (`@ * # ? ! = < > " ~ \ …`) and `..` range sequences are escaped with a backslash.
+ */
+export const escapeFindValue = (value: FindValue): string => {
+	if (value instanceof Date) {
+		return `${pad(value.getMonth() + 1)}/${pad(value.getDate())}/${value.getFullYear()}`;
+	}
+	if (typeof value === 'number') {
+		return String(value);
+	}
+	return String(value)
+		.replace(OPERATOR_CHARACTERS, c => `\\${c}`)
+		.replace(/\.(?=\.)/g, '\\.');
+};
+
+/** Criteria for a single field, returned by `FMQueryBuilder.where()`. Each method returns the builder for chaining. */
+export class FMFieldCondition<T> {
+	constructor(private readonly builder: FMQueryBuilder<T>, private readonly fieldName: FieldName<T>) {
+	}
+
+	/** The field matches the value exactly (`==value`). */
+	equals(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`==${escapeFindValue(value)}`);
+	}
+
+	/** Words in the field begin with the value. This is FileMaker's default find behavior. */
+	matches(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(escapeFindValue(value));
+	}
+
+	/** The field's contents begin with the value (`==value*`). */
+	beginsWith(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`==${escapeFindValue(value)}*`);
+	}
+
+	/** The field contains the value anywhere (`*value*`). */
+	contains(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`*${escapeFindValue(value)}*`);
+	}
+
+	greaterThan(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`>${escapeFindValue(value)}`);
+	}
+
+	greaterThanOrEqual(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`>=${escapeFindValue(value)}`);
+	}
+
+	lessThan(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`<${escapeFindValue(value)}`);
+	}
+
+	lessThanOrEqual(value: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`<=${escapeFindValue(value)}`);
+	}
+
+	/** The field is within an inclusive range (`from...to`). */
+	between(from: FindValue, to: FindValue): FMQueryBuilder<T> {
+		return this.criteria(`${escapeFindValue(from)}...${escapeFindValue(to)}`);
+	}
+
+	/** The field is empty (`=`). */
+	isEmpty(): FMQueryBuilder<T> {
+		return this.criteria('=');
+	}
+
+	/** The field has any value (`*`). */
+	isNotEmpty(): FMQueryBuilder<T> {
+		return this.criteria('*');
+	}
+
+	/** Uses unescaped FileMaker find syntax, e.g. `//` for today's date. */
+	raw(findCriteria: string): FMQueryBuilder<T> {
+		return this.criteria(findCriteria);
+	}
+
+	private criteria(value: string): FMQueryBuilder<T> {
+		return this.builder._addCriteria(this.fieldName, value);
+	}
+}
+
+/**
+ * Builds Data API find requests and sort orders, keyed on the record type `T`.
+ * Criteria on the same find request are combined with AND; `or()` and `omit()` start a new find request.
+ *
+ * @example
+ * const {query, sort} = q<Invoice>()
+ *     .where('status').equals('open')
+ *     .where('total').greaterThan(100)
+ *     .omit().where('customer').equals('ACME')
+ *     .sortBy('date', 'descend')
+ *     .build();
+ * const response = await fmPromise.dataRead<Invoice>({action: 'read', layouts: 'Invoices', query, sort});
+ */
+export class FMQueryBuilder<T = Record<string, any>> {
+	private readonly requests: DataAPIFindRequest[] = [{}];
+	private readonly sorts: TypedSortObject<T>[] = [];
+
+	/** Adds criteria for a field to the current find request. */
+	where(fieldName: FieldName<T>): FMFieldCondition<T> {
+		return new FMFieldCondition(this, fieldName);
+	}
+
+	/** Starts a new find request; records matching either request are found. */
+	or(): this {
+		this.startRequest();
+		return this;
+	}
+
+	/** Starts a new find request whose matching records are omitted from the found set. */
+	omit(): this {
+		this.startRequest().omit = 'true';
+		return this;
+	}
+
+	/** Appends a sort field. */
+	sortBy(fieldName: FieldName<T>, sortOrder: SortObject['sortOrder'] = 'ascend'): this {
+		this.sorts.push({fieldName, sortOrder});
+		return this;
+	}
+
+	/** Returns the find requests for the Data API `query` property. */
+	toQuery(): DataAPIFindRequest[] {
+		const query = this.requests.filter(request => Object.keys(request).some(key => key !== 'omit'));
+		if (!query.length) {
+			throw new FMPromiseError({code: -1, message: 'The query has no find criteria.'});
+		}
+		return query.map(request => ({...request}));
+	}
+
+	/** Returns the sort order for the Data API `sort` property. */
+	toSort(): TypedSortObject<T>[] {
+		return this.sorts.map(sort => ({...sort}));
+	}
+
+	/** Returns `query` and (if any sort fields were added) `sort`, ready to spread into a `dataRead()` request. */
+	build(): { query: DataAPIFindRequest[]; sort?: TypedSortObject<T>[] } {
+		return this.sorts.length ? {query: this.toQuery(), sort: this.toSort()} : {query: this.toQuery()};
+	}
+
+	/** @internal Adds criteria to the current find request; used by `FMFieldCondition`. */
+	_addCriteria(fieldName: FieldName<T>, value: string): this {
+		const request = this.requests[this.requests.length - 1];
+		if (fieldName in request) {
+			throw new FMPromiseError({code: -1, message: `Field "${fieldName}" already has criteria in this find request. Use or() to start another request.`});
+		}
+		(request as Record<string, string | number>)[fieldName] = value;
+		return this;
+	}
+
+	private startRequest(): DataAPIFindRequest {
+		const current = this.requests[this.requests.length - 1];
+		if (Object.keys(current).length === 0) {
+			return current;
+		}
+		const request: DataAPIFindRequest = {};
+		this.requests.push(request);
+		return request;
+	}
+}
+
+/** Starts a new type-safe find query for records of type `T`. */
+export const q = <T = Record<string, any>>(): FMQueryBuilder<T> => new FMQueryBuilder<T>();
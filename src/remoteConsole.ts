@@ -0,0 +1,182 @@
+/** A console message or error forwarded from a web viewer to the dev server. */
+export interface RemoteLogEntry {
+	level: 'debug' | 'log' | 'info' | 'warn' | 'error';
+	/** Where the entry came from: a console call, `window.onerror`, or an unhandled promise rejection. */
+	source: 'console' | 'error' | 'unhandledrejection';
+	/** The console arguments, each already formatted as text by the web viewer. */
+	args: string[];
+	webViewerName?: string;
+	/** The module path the web viewer was built from, e.g. `invoices/index.html`. */
+	module?: string;
+	/** The `Date.now()` timestamp in the web viewer. */
+	time: number;
+	/** The `FMPromiseError` code, for errors thrown by fmPromise. */
+	code?: string | number;
+	/** The script which failed, for errors thrown by fmPromise. */
+	scriptName?: string;
+	stack?: string;
+}
+
+const LEVELS = ['debug', 'log', 'info', 'warn', 'error'];
+const SOURCES = ['console', 'error', 'unhandledrejection'];
+const MAX_ARG_LENGTH = 10000;
+
+const optionalString = (value: any) => typeof value === 'string' ? value.slice(0, MAX_ARG_LENGTH) : undefined;
+
+/**
+ * Validates the body of a `POST /log` request: a single entry or an array of entries.
+ * Malformed entries are dropped rather than rejecting the whole batch.
+ */
+export const normalizeLogEntries = (json: any): RemoteLogEntry[] => {
+	const items = Array.isArray(json) ? json : [json];
+	return items
+		.filter(item => item && typeof item === 'object' && Array.isArray(item.args))
+		.map((item): RemoteLogEntry => ({
+			level: LEVELS.includes(item.level) ? item.level : 'log',
+			source: SOURCES.includes(item.source) ? item.source : 'console',
+			args: item.args.map((arg: any) => String(arg).slice(0, MAX_ARG_LENGTH)),
+			webViewerName: optionalString(item.webViewerName),
+			module: optionalString(item.module),
+			time: typeof item.time === 'number' ? item.time : Date.now(),
+			code: typeof item.code === 'number' ? item.code : optionalString(item.code),
+			scriptName: optionalString(item.scriptName),
+			stack: optionalString(item.stack),
+		}));
+};
+
+/** Formats an entry as a single block of terminal output, e.g. `12:01:02 [fmPromiseWebViewer invoices/index.html] warn: …`. */
+export const formatLogEntry = (entry: RemoteLogEntry): string => {
+	const time = new Date(entry.time).toTimeString().slice(0, 8);
+	const tag = [entry.webViewerName, entry.module].filter(Boolean).join(' ');
+	const label = entry.source === 'console' ? entry.level : entry.source;
+	const fmDetails = entry.code !== undefined || entry.scriptName
+		? ` (code ${entry.code ?? '?'}${entry.scriptName ? `, script "${entry.scriptName}"` : ''})`
+		: '';
+	const lines = [`${time} [${tag || 'web viewer'}] ${label}: ${entry.args.join(' ')}${fmDetails}`];
+	if (entry.stack && !entry.args.some(arg => arg.includes(entry.stack!))) {
+		lines.push(entry.stack.replace(/^/gm, '    '));
+	}
+	return lines.join('\n');
+};
+
+/**
+ * Returns a `<script>` which forwards `console.*` calls, uncaught errors and unhandled promise rejections
+ * to the dev server's `POST /log` route (at `logUrl`, which carries the token prefix when the server has a token),
+ * tagged with the web viewer name and module path. Messages are still written to the web viewer's own console.
+ */
+export const remoteConsoleScript = (modulePath: string, logUrl = '/log'): string => `
+	<script>
+		(function () {
+			var modulePath = ${JSON.stringify(modulePath).replace(/</g, '\\u003c')};
+			var logUrl = ${JSON.stringify(logUrl).replace(/</g, '\\u003c')};
+			var queue = [];
+			var timer = null;
+			var original = {};
+			var webViewerName = function () {
+				try {
+					return window.fmPromise ? window.fmPromise.webViewerName : undefined;
+				} catch (e) {
+					return undefined;
+				}
+			};
+			var format = function (value) {
+				if (typeof value === 'string') return value;
+				if (value instanceof Error) return value.stack && value.stack.indexOf(value.message) >= 0 ? value.stack : value.name + ': ' + value.message + (value.stack ? '\\n' + value.stack : '');
+				try {
+					var seen = [];
+					var json = JSON.stringify(value, function (key, v) {
+						if (v && typeof v === 'object') {
+							if (seen.indexOf(v) >= 0) return '[Circular]';
+							seen.push(v);
+						}
+						return v;
+					});
+					return json === undefined ? String(value) : json;
+				} catch (e) {
+					return String(value);
+				}
+			};
+			var flush = function () {
+				timer = null;
+				var batch = queue.splice(0, queue.length);
+				if (!batch.length) return;
+				fetch(logUrl, {method: 'POST', headers: {'Content-Type': 'application/json'}, body: JSON.stringify(batch), keepalive: true})
+					.catch(function (e) {
+						original.warn.call(console, '[Remote Console] Unable to send log entries.', e);
+					});
+			};
+			var send = function (entry) {
+				entry.webViewerName = webViewerName();
+				entry.module = modulePath;
+				entry.time = Date.now();
+				queue.push(entry);
+				if (!timer) timer = setTimeout(flush, 100);
+			};
+			var fmDetails = function (entry, error) {
+				if (error && typeof error === 'object') {
+					if (error.code !== undefined) entry.code = error.code;
+					if (error.scriptName) entry.scriptName = error.scriptName;
+					if (error.stack) entry.stack = String(error.stack);
+				}
+				return entry;
+			};
+			['debug', 'log', 'info', 'warn', 'error'].forEach(function (level) {
+				original[level] = console[level];
+				console[level] = function () {
+					var args = Array.prototype.slice.call(arguments);
+					original[level].apply(console, args);
+					try {
+						send({level: level, source: 'console', args: args.map(format)});
+					} catch (e) {
+						// Never let forwarding break the module's own logging
+					}
+				};
+			});
+			window.addEventListener('error', function (event) {
+				var where = event.filename ? ' (' + event.filename + ':' + event.lineno + ':' + event.colno + ')' : '';
+				send(fmDetails({level: 'error', source: 'error', args: [String(event.message) + where]}, event.error));
+			});
+			window.addEventListener('unhandledrejection', function (event) {
+				send(fmDetails({level: 'error', source: 'unhandledrejection', args: [format(event.reason)]}, event.reason));
+			});
+			window.addEventListener('pagehide', flush);
+		})();
+	</script>
+`;
+
+/** The HTML page for `GET /log`, which shows forwarded entries as they arrive from `eventsUrl` (with the token prefix when the server has a token). */
+export const generateConsoleHtml = (eventsUrl = '/log/events'): string => `
+	<!DOCTYPE html>
+	<html lang="en">
+	<head>
+		<meta charset="UTF-8">
+		<meta name="viewport" content="width=device-width, initial-scale=1.0">
+		<title>fmPromise Remote Console</title>
+		<style>
+			body { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 13px; margin: 0; background: #1e1e1e; color: #ddd; }
+			header { position: sticky; top: 0; padding: 0.6em 1em; background: #333; font-family: system-ui, sans-serif; }
+			pre { margin: 0; padding: 0.3em 1em; border-bottom: 1px solid #2c2c2c; white-space: pre-wrap; }
+			.warn { color: #e5c07b; background: #332b00; }
+			.error { color: #f48771; background: #290000; }
+			.debug { color: #888; }
+		</style>
+	</head>
+	<body>
+		<header>fmPromise Remote Console <button onclick="document.getElementById('log').textContent = ''">Clear</button></header>
+		<div id="log"></div>
+		<script>
+			const log = document.getElementById('log');
+			const source = new EventSource(${JSON.stringify(eventsUrl).replace(/</g, '\\u003c')});
+			source.onmessage = (event) => {
+				const {entry, text} = JSON.parse(event.data);
+				const pre = document.createElement('pre');
+				pre.className = entry.level;
+				pre.textContent = text;
+				const atBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 4;
+				log.appendChild(pre);
+				if (atBottom) window.scrollTo(0, document.body.scrollHeight);
+			};
+		</script>
+	</body>
+	</html>
+`;
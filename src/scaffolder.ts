@@ -1,16 +1,113 @@
 import fs from 'fs/promises';
 import path from 'path';
 import {fileURLToPath} from 'url';
+import {resolveInside} from './config.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const fileExists = (filePath: string) => fs.access(filePath).then(() => true).catch(() => false);
 
-interface ScaffoldResult {
+export interface ScaffoldResult {
 	created: string[];
 	skipped: string[];
+	/** The template the module was created from. */
+	template: string;
+	/** Packages the template needs which aren't in the project's package.json, as `name@range`. */
+	missingDependencies: string[];
+	/** Development packages (types, Vite plugins) the template needs which aren't in the project's package.json. */
+	missingDevDependencies: string[];
+	/** The template's setup instructions, e.g. a Vite plugin to add to the config. */
+	notes?: string;
 }
 
+export interface ScaffoldOptions {
+	/** The template name. Defaults to `vanilla`. */
+	template?: string;
+	/** Values for `{{NAME}}` placeholders, overriding the template's defaults. */
+	variables?: Record<string, string>;
+	/** A directory of project-local templates, which take precedence over the built-in ones. */
+	templatesDir?: string;
+}
+
+/**
+ * The optional `template.json` in a template directory. Every other file in the directory is copied into the module,
+ * with `{{NAME}}` placeholders replaced in file contents and names; `module.html` is renamed to the module's HTML file.
+ */
+export interface TemplateManifest {
+	description?: string;
+	/** Default values for the template's own placeholders. */
+	variables?: Record<string, string>;
+	dependencies?: Record<string, string>;
+	devDependencies?: Record<string, string>;
+	notes?: string;
+}
+
+export interface TemplateInfo {
+	name: string;
+	description?: string;
+	source: 'project' | 'built-in';
+	dir: string;
+}
+
+const BUILT_IN_TEMPLATES_DIR = path.join(__dirname, 'templates');
+const TEMPLATE_MANIFEST = 'template.json';
+const PLACEHOLDER = /{{([A-Z][A-Z0-9_]*)}}/g;
+// In code, a placeholder in quotes, e.g. `'{{LAYOUT}}'`, is replaced as a whole by the value as a string literal
+const CODE_PLACEHOLDER = /(['"]){{([A-Z][A-Z0-9_]*)}}\1|{{([A-Z][A-Z0-9_]*)}}/g;
+const CODE_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs|json)$/i;
+const MARKUP_FILE = /\.(html|htm|vue|svelte)$/i;
+// Characters which could end a string, comment or expression when a value is pasted into code as it is
+const UNSAFE_IN_CODE = /['"`\\{}<>\r\n\u2028\u2029]/;
+const MARKUP_ENTITIES: Record<string, string> = {'&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;', '{': '&#123;', '}': '&#125;'};
+
+const readTemplateManifest = async (dir: string): Promise<TemplateManifest> => {
+	try {
+		return JSON.parse(await fs.readFile(path.join(dir, TEMPLATE_MANIFEST), 'utf8'));
+	} catch (e: any) {
+		if (e.code === 'ENOENT') return {};
+		throw new Error(`Invalid ${TEMPLATE_MANIFEST} in ${dir}: ${e.message}`);
+	}
+};
+
+/** Lists the available templates: project-local ones first, then the built-in ones they don't replace. */
+export const listTemplates = async (templatesDir?: string): Promise<TemplateInfo[]> => {
+	const templates: TemplateInfo[] = [];
+	const sources: [string | undefined, TemplateInfo['source']][] = [[templatesDir, 'project'], [BUILT_IN_TEMPLATES_DIR, 'built-in']];
+	for (const [baseDir, source] of sources) {
+		if (!baseDir) continue;
+		const entries = await fs.readdir(baseDir, {withFileTypes: true}).catch(() => []);
+		for (const entry of entries.filter(entry => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+			if (templates.some(template => template.name === entry.name)) continue;
+			const dir = path.join(baseDir, entry.name);
+			templates.push({name: entry.name, description: (await readTemplateManifest(dir)).description, source, dir});
+		}
+	}
+	return templates;
+};
+
+/** Lists a template's files relative to its directory, leaving out the manifest. */
+const listTemplateFiles = async (dir: string, prefix = ''): Promise<string[]> => {
+	const files: string[] = [];
+	for (const entry of await fs.readdir(path.join(dir, prefix), {withFileTypes: true})) {
+		const relativePath = path.join(prefix, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...await listTemplateFiles(dir, relativePath));
+		} else if (relativePath !== TEMPLATE_MANIFEST) {
+			files.push(relativePath);
+		}
+	}
+	return files;
+};
+
+const readProjectDependencies = async (projectRoot: string): Promise<Record<string, string>> => {
+	try {
+		const pkg = JSON.parse(await fs.readFile(path.join(projectRoot, 'package.json'), 'utf8'));
+		return {...pkg.dependencies, ...pkg.devDependencies};
+	} catch (e) {
+		return {};
+	}
+};
+
 const tsconfigTemplate = `{
   "compilerOptions": {
     "target": "ES2020",
@@ -23,19 +120,81 @@ const tsconfigTemplate = `{
     "forceConsistentCasingInFileNames": true,
     "isolatedModules": true,
     "noEmit": true,
-    "resolveJsonModule": true
+    "resolveJsonModule": true,
+    "jsx": "react-jsx"
   },
   "include": ["src"]
 }
 `;
 
 
-export const scaffoldModule = async (htmlFilePath: string, originalPath: string): Promise<ScaffoldResult> => {
+/**
+ * Creates a module from a template. Existing files are never overwritten.
+ * Every placeholder in the template must have a value, from `options.variables`, the template's defaults,
+ * or the built-in `MODULE_NAME` and `MODULE_PATH`; nothing is written otherwise.
+ * In code, a quoted placeholder is replaced by a string literal, and an unquoted one only by a value which can't break the code.
+ * In HTML, Vue and Svelte files, values are escaped.
+ */
+export const scaffoldModule = async (htmlFilePath: string, originalPath: string, srcDir: string = path.resolve(process.cwd(), 'src'), options: ScaffoldOptions = {}): Promise<ScaffoldResult> => {
 	const projectRoot = process.cwd();
-	const result: ScaffoldResult = { created: [], skipped: [] };
+	const templateName = options.template || 'vanilla';
+	const templates = await listTemplates(options.templatesDir);
+	const template = templates.find(t => t.name === templateName);
+	if (!template) {
+		throw new Error(`Unknown template "${templateName}". Available templates: ${templates.map(t => t.name).join(', ')}.`);
+	}
+	const manifest = await readTemplateManifest(template.dir);
 
-	const targetDir = path.resolve(projectRoot, 'src', path.dirname(htmlFilePath));
-	await fs.mkdir(targetDir, { recursive: true });
+	const targetDir = resolveInside(srcDir, path.dirname(htmlFilePath));
+	const htmlFileName = path.basename(htmlFilePath);
+
+	// Get the module name from the ORIGINAL path, not the final file path
+	const variables: Record<string, string> = {
+		...manifest.variables,
+		...options.variables,
+		MODULE_NAME: path.basename(originalPath),
+		// The full, absolute path for display
+		MODULE_PATH: resolveInside(srcDir, htmlFilePath),
+	};
+
+	// Substitute everything up front, so a missing or unusable value doesn't leave a half-created module behind
+	const missingVariables = new Set<string>();
+	const valueOf = (name: string) => {
+		if (variables[name] === undefined) missingVariables.add(name);
+		return variables[name];
+	};
+	const substitute = (text: string) => text.replace(PLACEHOLDER, (placeholder, name) => valueOf(name) ?? placeholder);
+	// Values are escaped for the file they go into, so they can't break the generated code or markup
+	const substituteContent = (text: string, templateFile: string) => {
+		if (MARKUP_FILE.test(templateFile)) {
+			return text.replace(PLACEHOLDER, (placeholder, name) => valueOf(name)?.replace(/[&<>"'{}]/g, c => MARKUP_ENTITIES[c]) ?? placeholder);
+		}
+		if (CODE_FILE.test(templateFile)) {
+			return text.replace(CODE_PLACEHOLDER, (match, quote, quotedName, name) => {
+				const value = valueOf(quotedName ?? name);
+				if (value === undefined) return match;
+				if (quotedName) return JSON.stringify(value);
+				if (UNSAFE_IN_CODE.test(value)) {
+					throw new Error(`The value of ${name} can't be inserted into ${templateFile}: it contains quotes, braces, angle brackets, backslashes or line breaks. Put the placeholder in quotes in the template to insert it as a string.`);
+				}
+				return value;
+			});
+		}
+		return substitute(text);
+	};
+	const files: { finalName: string; content: Buffer }[] = [];
+	for (const templateFile of await listTemplateFiles(template.dir)) {
+		const finalName = templateFile === 'module.html' ? htmlFileName : substitute(templateFile);
+		const content = await fs.readFile(path.join(template.dir, templateFile));
+		// Binary files such as images are copied as they are
+		files.push({finalName, content: content.includes(0) ? content : Buffer.from(substituteContent(content.toString('utf8'), templateFile), 'utf8')});
+	}
+	if (missingVariables.size) {
+		throw new Error(`Template "${templateName}" needs values for: ${[...missingVariables].join(', ')}.`);
+	}
+
+	const result: ScaffoldResult = {created: [], skipped: [], template: templateName, missingDependencies: [], missingDevDependencies: [], notes: manifest.notes};
+	await fs.mkdir(targetDir, {recursive: true});
 
 	const tsconfigPath = path.join(projectRoot, 'tsconfig.json');
 	if (!(await fileExists(tsconfigPath))) {
@@ -45,44 +204,23 @@ export const scaffoldModule = async (htmlFilePath: string, originalPath: string)
 		result.skipped.push('tsconfig.json');
 	}
 
-	const htmlFileName = path.basename(htmlFilePath);
-
-	// Get the module name from the ORIGINAL path, not the final file path
-    const moduleName = path.basename(originalPath);
-
-	// Calculate the full, absolute path for display
-	const absoluteModulePath = path.resolve(projectRoot, 'src', htmlFilePath);
-
-	const templatesDir = path.join(__dirname, 'templates');
-	const filesToCreate = [
-		{ templateName: 'module.html', finalName: htmlFileName },
-		{ templateName: 'main.ts', finalName: 'main.ts' },
-		{ templateName: 'style.css', finalName: 'style.css' },
-	];
-
-	for (const file of filesToCreate) {
-		const finalPath = path.join(targetDir, file.finalName);
-		const templatePath = path.join(templatesDir, file.templateName);
-
+	for (const file of files) {
+		const finalPath = resolveInside(targetDir, file.finalName);
 		if (await fileExists(finalPath)) {
 			result.skipped.push(file.finalName);
 			continue;
 		}
+		await fs.mkdir(path.dirname(finalPath), {recursive: true});
+		await fs.writeFile(finalPath, file.content);
+		result.created.push(file.finalName);
+	}
 
-		if (file.templateName === 'module.html') {
-			const templateContent = await fs.readFile(templatePath, 'utf8');
-
-			// Use the correct variables for replacement
-			const newContent = templateContent
-				.replace(/{{MODULE_NAME}}/g, moduleName)
-				.replace(/{{MODULE_PATH}}/g, absoluteModulePath);
-
-			await fs.writeFile(finalPath, newContent, 'utf8');
-			result.created.push(file.finalName);
-		} else {
-			await fs.copyFile(templatePath, finalPath);
-			result.created.push(file.finalName);
-		}
+	const installed = await readProjectDependencies(projectRoot);
+	for (const [name, range] of Object.entries(manifest.dependencies || {})) {
+		if (!installed[name]) result.missingDependencies.push(`${name}@${range}`);
+	}
+	for (const [name, range] of Object.entries(manifest.devDependencies || {})) {
+		if (!installed[name]) result.missingDevDependencies.push(`${name}@${range}`);
 	}
 
 	return result;
@@ -0,0 +1,131 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {listSourceFiles} from './config.js';
+
+/** Declared script names, each with the modules (or source files) which declare it. */
+export type DeclaredScripts = Record<string, string[]>;
+
+/** A declared script which isn't in the FileMaker file. */
+export interface ScriptIssue {
+	name: string;
+	/** The modules or source files declaring it. */
+	declaredIn: string[];
+	/** A similarly named FileMaker script, when the script looks renamed rather than missing. */
+	renamedTo?: string;
+}
+
+export interface ScriptCheckResult {
+	/** Declared scripts which exist in the FileMaker file. */
+	found: string[];
+	/** Declared scripts with no similarly named FileMaker script. */
+	missing: ScriptIssue[];
+	/** Declared scripts which only match a FileMaker script by a similar name, e.g. after a rename or a typo. */
+	renamed: ScriptIssue[];
+}
+
+// `defineScript('Name')`, including `fmPromise.defineScript<Param, Result>('Name')`. The type arguments may contain
+// arrow types, so they're matched lazily up to the `>(` followed by the name.
+const DEFINE_SCRIPT = /\bdefineScript\s*(?:<[\s\S]{0,500}?>)?\s*\(\s*(['"`])((?:\\.|(?!\1)[^\\\r\n])*)\1/g;
+
+/** Finds the script names declared with `defineScript` in source code. Names built at runtime, e.g. from template literals with `${…}`, are left out. */
+export const findDeclaredScripts = (source: string): string[] => {
+	const names = new Set<string>();
+	for (const match of source.matchAll(DEFINE_SCRIPT)) {
+		if (match[1] === '`' && match[2].includes('${')) continue;
+		names.add(match[2].replace(/\\(.)/g, '$1'));
+	}
+	return [...names];
+};
+
+const SOURCE_EXTENSIONS = /\.(ts|tsx|mts|js|jsx|mjs|vue|svelte|html)$/i;
+
+/** Scans the source files under a directory for declared scripts, skipping dot-directories, `node_modules` and `excludeDir`. */
+export const scanDeclaredScripts = async (srcDir: string, excludeDir?: string): Promise<DeclaredScripts> => {
+	const declared: DeclaredScripts = {};
+	for (const fullPath of await listSourceFiles(srcDir, excludeDir)) {
+		if (!SOURCE_EXTENSIONS.test(fullPath)) continue;
+		const file = path.relative(srcDir, fullPath).split(path.sep).join('/');
+		for (const name of findDeclaredScripts(await fs.readFile(fullPath, 'utf8'))) {
+			(declared[name] ||= []).push(file);
+		}
+	}
+	return declared;
+};
+
+/**
+ * Reads a FileMaker script list. Accepts an array of names, the return-separated text of `ScriptNames ( Get ( FileName ) )`,
+ * or objects with a `name`, optionally nested in folders through `scripts`, `children` or `items`. Folders and separators are skipped.
+ */
+export const normalizeScriptList = (json: any): string[] => {
+	const names = new Set<string>();
+	const visit = (value: any) => {
+		if (typeof value === 'string') {
+			value.split(/\r\n|\r|\n/).map(name => name.trim()).filter(name => name && name !== '-').forEach(name => names.add(name));
+		} else if (Array.isArray(value)) {
+			value.forEach(visit);
+		} else if (value && typeof value === 'object') {
+			const children = value.scripts ?? value.children ?? value.items;
+			const isFolder = value.isFolder || value.folder === true || value.type === 'folder' || children !== undefined;
+			if (typeof value.name === 'string' && !isFolder && !value.isSeparator) {
+				names.add(value.name.trim());
+			}
+			if (children !== undefined) visit(children);
+		}
+	};
+	visit(json);
+	return [...names];
+};
+
+const simplify = (name: string) => name.toLowerCase().replace(/[\s._\-:/]+/g, '');
+
+const editDistance = (a: string, b: string): number => {
+	let previous = Array.from({length: b.length + 1}, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+};
+
+/** Finds the FileMaker script a missing name was most likely renamed to: the same name apart from case and punctuation, or a close spelling. */
+const findRenamed = (name: string, fileMakerScripts: string[]): string | undefined => {
+	const simplified = simplify(name);
+	const exact = fileMakerScripts.find(script => simplify(script) === simplified);
+	if (exact) return exact;
+	let best: { script: string; distance: number } | undefined;
+	for (const script of fileMakerScripts) {
+		const distance = editDistance(simplified, simplify(script));
+		if (distance <= Math.max(2, Math.floor(simplified.length * 0.25)) && (!best || distance < best.distance)) {
+			best = {script, distance};
+		}
+	}
+	return best?.script;
+};
+
+/** Compares declared scripts with the scripts in a FileMaker file. */
+export const checkScripts = (declared: DeclaredScripts, fileMakerScripts: string[]): ScriptCheckResult => {
+	const available = new Set(fileMakerScripts);
+	const result: ScriptCheckResult = {found: [], missing: [], renamed: []};
+	for (const name of Object.keys(declared).sort()) {
+		if (available.has(name)) {
+			result.found.push(name);
+			continue;
+		}
+		const renamedTo = findRenamed(name, fileMakerScripts);
+		if (renamedTo) {
+			result.renamed.push({name, declaredIn: declared[name], renamedTo});
+		} else {
+			result.missing.push({name, declaredIn: declared[name]});
+		}
+	}
+	return result;
+};
+
+/** Describes the problems found by `checkScripts`, one line per script, or returns an empty array if there are none. */
+export const formatScriptCheck = (result: ScriptCheckResult): string[] => [
+	...result.missing.map(issue => `Script "${issue.name}" is not in the FileMaker file (declared in ${issue.declaredIn.join(', ')})`),
+	...result.renamed.map(issue => `Script "${issue.name}" is not in the FileMaker file; was it renamed to "${issue.renamedTo}"? (declared in ${issue.declaredIn.join(', ')})`),
+];
@@ -2,17 +2,121 @@ import http from 'http';
 import path from 'path';
 import {URL} from 'url';
 import chokidar from 'chokidar';
-import {buildModule} from './viteBuilder.js';
-import {scaffoldModule} from './scaffolder.js';
+import {buildModuleCached, invalidateBuildCache} from './viteBuilder.js';
+import {listTemplates, scaffoldModule} from './scaffolder.js';
+import {generateLayoutTypes, normalizeMetadataDump} from './typeGenerator.js';
+import {DEV_BASE, getDevServer, renderDevModule, resolveDevModule} from './viteDevServer.js';
+import {formatLogEntry, generateConsoleHtml, normalizeLogEntries, RemoteLogEntry, remoteConsoleScript} from './remoteConsole.js';
+import {ResolvedDevConfig, resolveInside} from './config.js';
+import {checkScripts, formatScriptCheck, normalizeScriptList, scanDeclaredScripts, ScriptCheckResult} from './scriptManifest.js';
+import {encodeModuleOutput, isModuleOutputFormat, MODULE_OUTPUT_FORMATS, readModuleInfo} from './outputFormats.js';
 import fs from 'fs/promises';
+import crypto from 'crypto';
 
-const PORT = 4000;
-let clients: http.ServerResponse[] = [];
-const sendReloadEvent = () => {
-	clients.forEach(client => client.write('data: reload\n\n'));
+/** Milliseconds to wait for further file changes before reloading, so a save touching several files reloads once. */
+const RELOAD_DEBOUNCE = 150;
+/** Live reload subscribers, with the module path each one displays. */
+let clients: { response: http.ServerResponse; module: string | null }[] = [];
+/** The source files each module was last built from, keyed by module path (e.g. `invoices/index.html`). */
+const moduleDependencies = new Map<string, Set<string>>();
+let pendingChanges = new Set<string>();
+let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+
+const isAffected = (module: string | null, changedFiles: Set<string>) => {
+	const dependencies = module ? moduleDependencies.get(module) : undefined;
+	// Without a known dependency graph (an older live reload script, or a failed build), any change may matter
+	if (!dependencies) return true;
+	return [...changedFiles].some(file => dependencies.has(file));
+};
+
+const sendReloadEvent = (changedFiles: Set<string>) => {
+	clients
+		.filter(client => isAffected(client.module, changedFiles))
+		.forEach(client => client.response.write('data: reload\n\n'));
+};
+
+const queueReloadEvent = (file: string) => {
+	pendingChanges.add(path.normalize(file));
+	clearTimeout(reloadTimer);
+	reloadTimer = setTimeout(() => {
+		const changedFiles = pendingChanges;
+		pendingChanges = new Set();
+		sendReloadEvent(changedFiles);
+	}, RELOAD_DEBOUNCE);
+};
+
+// Remote console: entries forwarded by web viewers, kept so a newly opened /log page shows recent history
+const MAX_LOG_ENTRIES = 200;
+const recentLogEntries: RemoteLogEntry[] = [];
+let logClients: http.ServerResponse[] = [];
+const logEventData = (entry: RemoteLogEntry) => `data: ${JSON.stringify({entry, text: formatLogEntry(entry)})}\n\n`;
+const receiveLogEntry = (entry: RemoteLogEntry) => {
+	const text = formatLogEntry(entry);
+	if (entry.level === 'error') {
+		console.error(text);
+	} else if (entry.level === 'warn') {
+		console.warn(text);
+	} else {
+		console.log(text);
+	}
+	recentLogEntries.push(entry);
+	if (recentLogEntries.length > MAX_LOG_ENTRIES) recentLogEntries.shift();
+	logClients.forEach(client => client.write(logEventData(entry)));
 };
 
 
+// Script checks: the FileMaker file's script names, posted to /scripts or read from the configured script list
+let postedScriptList: string[] | null = null;
+/** The issues last reported for each module, so a rebuild only warns again when something changed. */
+const reportedScriptIssues = new Map<string, string>();
+
+const loadScriptList = async (config: ResolvedDevConfig): Promise<string[] | null> => {
+	if (postedScriptList) return postedScriptList;
+	if (!config.scriptList) return null;
+	try {
+		return normalizeScriptList(JSON.parse(await fs.readFile(config.scriptList, 'utf8')));
+	} catch (e: any) {
+		console.warn(`Unable to read the script list ${config.scriptList}: ${e.message || e}`);
+		return null;
+	}
+};
+
+const warnAboutScripts = (result: ScriptCheckResult) => formatScriptCheck(result).forEach(line => console.warn(`[Scripts] ${line}`));
+
+/** Compares a token from a request with the configured one, in constant time. */
+const tokensMatch = (candidate: string | string[] | undefined, token: string): boolean => {
+	if (typeof candidate !== 'string') return false;
+	const a = Buffer.from(candidate);
+	const b = Buffer.from(token);
+	return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/** The largest request body accepted, which leaves room for the metadata of a large FileMaker file. */
+const MAX_REQUEST_BODY_BYTES = 20 * 1024 * 1024;
+
+/** Reads the full request body as a UTF-8 string, failing with the code `ETOOLARGE` if it exceeds `maxBytes`. */
+const readRequestBody = (request: http.IncomingMessage, maxBytes = MAX_REQUEST_BODY_BYTES): Promise<string> => new Promise((resolve, reject) => {
+	const tooLarge = () => Object.assign(new Error(`The request body is larger than ${maxBytes} bytes.`), {code: 'ETOOLARGE'});
+	if (Number(request.headers['content-length']) > maxBytes) {
+		reject(tooLarge());
+		return;
+	}
+	const chunks: Buffer[] = [];
+	let size = 0;
+	request.on('data', chunk => {
+		size += chunk.length;
+		if (size > maxBytes) {
+			// The rest of the body is read and discarded, so the response can still be sent
+			chunks.length = 0;
+			reject(tooLarge());
+		} else {
+			chunks.push(chunk);
+		}
+	});
+	request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+	request.on('error', reject);
+});
+
 /**
  * Generates an HTML page to display file information.
  * @param info - The file statistics object.
@@ -72,146 +176,310 @@ function generateInfoHtml(info: {
 	`;
 }
 
-const server = http.createServer(async (request, response) => {
-	const {method, url} = request;
-	const requestUrl = new URL(url || '/', `http://${request.headers.host}`);
-	const {pathname, searchParams} = requestUrl;
-	console.log(`Got ${method} request for ${pathname}`);
+/** Starts the dev server and the file watcher for live reload. */
+export const startServer = (config: ResolvedDevConfig): http.Server => {
+	const server = http.createServer(async (request, response) => {
+		const {method, url} = request;
+		const requestUrl = new URL(url || '/', `http://${request.headers.host}`);
+		const {searchParams} = requestUrl;
+		let {pathname} = requestUrl;
 
-	try {
-		// --- PING ROUTE ---
-		if (pathname === '/ping') {
-			if (method !== 'GET') throw new Error(`Method ${method} not allowed for /ping.`);
-			response.writeHead(200, {'Content-Type': 'application/json'});
-			response.end(JSON.stringify({success: true, message: 'pong'}));
-
-			// --- LIVE RELOAD EVENT STREAM ---
-		} else if (pathname === '/events') {
-			if (method !== 'GET') throw new Error(`Method ${method} not allowed for /events.`);
-			response.writeHead(200, {
-				'Content-Type': 'text/event-stream',
-				Connection: 'keep-alive',
-				'Cache-Control': 'no-cache',
-			});
-			clients.push(response);
-			request.on('close', () => {
-				clients = clients.filter(c => c !== response);
-			});
-
-			// --- INFO ROUTE ---
-		} else if (pathname.startsWith('/info/')) {
-			if (method !== 'GET') throw new Error(`Method ${method} not allowed for /info.`);
-			const modulePath = pathname.replace('/info/', '');
-			const fullPath = path.resolve(process.cwd(), 'src', modulePath);
-
-			const stats = await fs.stat(fullPath);
-			const info = {
-				path: modulePath,
-				fullPath: fullPath,
-				isFile: stats.isFile(),
-				isDirectory: stats.isDirectory(),
-				createdAt: stats.birthtime.toISOString(),
-				modifiedAt: stats.mtime.toISOString(),
-				size: `${stats.size} bytes`,
-			};
-
-			const html = generateInfoHtml(info);
-			response.writeHead(200, {'Content-Type': 'text/html'});
-			response.end(html);
-			// --- INIT ROUTE ---
-		} else if (pathname.startsWith('/init/')) {
-			if (method !== 'POST') throw new Error(`Method ${method} not allowed for /init.`);
-
-			// Capture the original path the user entered
-			const originalModulePath = pathname.replace('/init/', '');
-
-			// Calculate the final path, appending /index.html if it's a directory
-			let finalModulePath = originalModulePath;
-			if (!finalModulePath.toLowerCase().endsWith('.html')) {
-				finalModulePath = path.join(finalModulePath, 'index.html');
-			}
+		// With a token, FileMaker's server address is http://host:port/t/<token>, so its requests carry the token in a path prefix
+		let authorized = !config.token;
+		const tokenPrefix = config.token ? /^\/t\/([^/]+)/.exec(pathname) : null;
+		if (config.token && tokenPrefix) {
+			authorized = tokensMatch(tokenPrefix[1], config.token);
+			pathname = pathname.slice(tokenPrefix[0].length) || '/';
+			request.url = (url || '/').slice(tokenPrefix[0].length) || '/';
+		} else if (config.token) {
+			authorized = tokensMatch(request.headers['x-fmpromise-token'], config.token);
+		}
+		// Pages served to an authorized request forward their logs with the token; others can't log
+		const logUrl = config.token && authorized ? `/t/${config.token}/log` : '/log';
 
-			const result = await scaffoldModule(finalModulePath, originalModulePath);
-			const message = `Scaffolding complete. Created ${result.created.length} file(s).`;
-			response.writeHead(201, {'Content-Type': 'application/json'});
-			response.end(JSON.stringify({success: true, message, details: result}));
-		} else if (pathname.startsWith('/build/')) {
-			if (method !== 'GET') throw new Error(`Method ${method} not allowed for /build.`);
-			let modulePath = pathname.replace('/build/', '');
-			if (!modulePath.toLowerCase().endsWith('.html')) {
-				modulePath = path.join(modulePath, 'index.html');
+		if (!(pathname === '/log' && method === 'POST')) {
+			// Forwarded log entries are printed on their own; logging each batch would drown them out
+			console.log(`Got ${method} request for ${pathname}`);
+		}
+
+		try {
+			// POST routes change files or print to the terminal, and forwarded logs can show script parameters and results
+			if ((method === 'POST' || pathname === '/log' || pathname === '/log/events') && !authorized) {
+				throw Object.assign(new Error('A valid fmPromise dev server token is required.'), {code: 'EUNAUTHORIZED'});
 			}
-			const shouldMinify = searchParams.get('minify') === 'true';
-			const useLiveReload = searchParams.get('liveReload') === 'true';
-			const configParam = searchParams.get('config');
-
-			let html = await buildModule(modulePath, shouldMinify, configParam);
-			if (useLiveReload) {
-				const liveReloadScript = `
-					<script>
-						console.log('[Live Reload] Connecting to dev server...');
-						const eventSource = new EventSource('/events');
-						eventSource.onmessage = async function(event) {
-							if (event.data === 'reload') {
-								try {
-									// register the webViewer as modified in the global fmPromise variable
-									await fmPromise.performScript('fmPromise.onLiveReload', {
-										webViewerName: fmPromise.webViewerName, 
-										path : '${modulePath}'
-									});
-								} catch (error) {
-									console.warn('Unable to set $$FMPROMISE_MODIFIED_WEBVIEWERS', error);
+
+			// --- PING ROUTE ---
+			if (pathname === '/ping') {
+				if (method !== 'GET') throw new Error(`Method ${method} not allowed for /ping.`);
+				response.writeHead(200, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: true, message: 'pong'}));
+
+				// --- LIVE RELOAD EVENT STREAM ---
+			} else if (pathname === '/events') {
+				if (method !== 'GET') throw new Error(`Method ${method} not allowed for /events.`);
+				response.writeHead(200, {
+					'Content-Type': 'text/event-stream',
+					Connection: 'keep-alive',
+					'Cache-Control': 'no-cache',
+				});
+				const module = searchParams.get('module');
+				clients.push({response, module: module ? path.normalize(module) : null});
+				request.on('close', () => {
+					clients = clients.filter(c => c.response !== response);
+				});
+
+				// --- REMOTE CONSOLE ---
+			} else if (pathname === '/log/events') {
+				if (method !== 'GET') throw new Error(`Method ${method} not allowed for /log/events.`);
+				response.writeHead(200, {
+					'Content-Type': 'text/event-stream',
+					Connection: 'keep-alive',
+					'Cache-Control': 'no-cache',
+				});
+				recentLogEntries.forEach(entry => response.write(logEventData(entry)));
+				logClients.push(response);
+				request.on('close', () => {
+					logClients = logClients.filter(c => c !== response);
+				});
+			} else if (pathname === '/log') {
+				if (method === 'POST') {
+					normalizeLogEntries(JSON.parse(await readRequestBody(request))).forEach(receiveLogEntry);
+					response.writeHead(204);
+					response.end();
+				} else if (method === 'GET') {
+					response.writeHead(200, {'Content-Type': 'text/html'});
+					response.end(generateConsoleHtml(`${logUrl}/events`));
+				} else {
+					throw new Error(`Method ${method} not allowed for /log.`);
+				}
+
+				// --- DEV MODE (VITE DEV SERVER WITH HMR) ---
+			} else if (pathname.startsWith(DEV_BASE)) {
+				const devServer = await getDevServer(server, config);
+				const devModule = method === 'GET' ? await resolveDevModule(decodeURIComponent(pathname.slice(DEV_BASE.length)), config.srcDir) : null;
+				if (devModule?.redirect) {
+					response.writeHead(301, {Location: pathname + '/' + requestUrl.search});
+					response.end();
+				} else if (devModule) {
+					let html = await renderDevModule(devServer, devModule.modulePath, searchParams.get('config'));
+					html += remoteConsoleScript(devModule.modulePath, logUrl);
+					response.writeHead(200, {'Content-Type': 'text/html', 'Cache-Control': 'no-cache'});
+					response.end(html);
+				} else {
+					// Scripts, styles and assets of the module, plus Vite's own client and pre-bundled dependencies
+					devServer.middlewares(request, response, () => {
+						response.writeHead(404, {'Content-Type': 'text/plain'});
+						response.end(`Not found: ${pathname}`);
+					});
+				}
+
+				// --- INFO ROUTE ---
+			} else if (pathname.startsWith('/info/')) {
+				if (method !== 'GET') throw new Error(`Method ${method} not allowed for /info.`);
+				const modulePath = pathname.replace('/info/', '');
+				const fullPath = resolveInside(config.srcDir, modulePath);
+
+				const stats = await fs.stat(fullPath);
+				const info = {
+					path: modulePath,
+					fullPath: fullPath,
+					isFile: stats.isFile(),
+					isDirectory: stats.isDirectory(),
+					createdAt: stats.birthtime.toISOString(),
+					modifiedAt: stats.mtime.toISOString(),
+					size: `${stats.size} bytes`,
+				};
+
+				const html = generateInfoHtml(info);
+				response.writeHead(200, {'Content-Type': 'text/html'});
+				response.end(html);
+				// --- INIT ROUTE ---
+			} else if (pathname === '/init' || pathname === '/init/') {
+				if (method !== 'GET') throw new Error(`Method ${method} not allowed for /init.`);
+				const templates = await listTemplates(config.templatesDir);
+				response.writeHead(200, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: true, templates: templates.map(({name, description, source}) => ({name, description, source}))}));
+			} else if (pathname.startsWith('/init/')) {
+				if (method !== 'POST') throw new Error(`Method ${method} not allowed for /init.`);
+
+				// Capture the original path the user entered
+				const originalModulePath = pathname.replace('/init/', '');
+
+				// Calculate the final path, appending /index.html if it's a directory
+				let finalModulePath = originalModulePath;
+				if (!finalModulePath.toLowerCase().endsWith('.html')) {
+					finalModulePath = path.join(finalModulePath, 'index.html');
+				}
+
+				// Upper-case query parameters fill the template's {{NAME}} placeholders
+				const variables = Object.fromEntries([...searchParams].filter(([name]) => /^[A-Z][A-Z0-9_]*$/.test(name)));
+				const template = searchParams.get('template') || undefined;
+				const result = await scaffoldModule(finalModulePath, originalModulePath, config.srcDir, {template, variables, templatesDir: config.templatesDir});
+				const message = `Scaffolding complete. Created ${result.created.length} file(s).`;
+				response.writeHead(201, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: true, message, details: result}));
+				// --- TYPES ROUTE ---
+			} else if (pathname === '/types') {
+				if (method !== 'POST') throw new Error(`Method ${method} not allowed for /types.`);
+				const dump = JSON.parse(await readRequestBody(request));
+				const source = generateLayoutTypes(normalizeMetadataDump(dump, searchParams.get('layout') || undefined));
+
+				const outParam = searchParams.get('out');
+				if (outParam) {
+					const outPath = resolveInside(config.srcDir, outParam);
+					await fs.mkdir(path.dirname(outPath), {recursive: true});
+					await fs.writeFile(outPath, source, 'utf8');
+					response.writeHead(201, {'Content-Type': 'application/json'});
+					response.end(JSON.stringify({success: true, message: `Wrote layout types to ${outPath}`}));
+				} else {
+					response.writeHead(200, {'Content-Type': 'text/plain'});
+					response.end(source);
+				}
+				// --- SCRIPTS ROUTE ---
+			} else if (pathname === '/scripts') {
+				if (method === 'POST') {
+					postedScriptList = normalizeScriptList(JSON.parse(await readRequestBody(request)));
+					reportedScriptIssues.clear();
+				} else if (method !== 'GET') {
+					throw new Error(`Method ${method} not allowed for /scripts.`);
+				}
+				const declared = await scanDeclaredScripts(config.srcDir, config.outDir);
+				const scriptList = await loadScriptList(config);
+				const check = scriptList ? checkScripts(declared, scriptList) : null;
+				if (check && method === 'POST') warnAboutScripts(check);
+				response.writeHead(200, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: true, declared, check}));
+			} else if (pathname.startsWith('/build/')) {
+				if (method !== 'GET') throw new Error(`Method ${method} not allowed for /build.`);
+				let modulePath = pathname.replace('/build/', '');
+				if (!modulePath.toLowerCase().endsWith('.html')) {
+					modulePath = path.join(modulePath, 'index.html');
+				}
+				const shouldMinify = searchParams.has('minify') ? searchParams.get('minify') === 'true' : config.minify;
+				const useLiveReload = searchParams.get('liveReload') === 'true';
+				const configParam = searchParams.get('config');
+				const format = searchParams.get('format') || 'html';
+				if (!isModuleOutputFormat(format)) {
+					throw new Error(`Unknown output format "${format}". Use one of: ${MODULE_OUTPUT_FORMATS.join(', ')}.`);
+				}
+
+				moduleDependencies.delete(path.normalize(modulePath));
+				const build = await buildModuleCached(modulePath, shouldMinify, configParam, config);
+				moduleDependencies.set(path.normalize(modulePath), new Set(build.dependencies));
+				const scriptList = await loadScriptList(config);
+				if (scriptList) {
+					const check = checkScripts(Object.fromEntries((build.scripts || []).map(name => [name, [modulePath]])), scriptList);
+					const issues = formatScriptCheck(check).join('\n');
+					if (issues !== (reportedScriptIssues.get(modulePath) ?? '')) warnAboutScripts(check);
+					reportedScriptIssues.set(modulePath, issues);
+				}
+				let html = build.html;
+				if (useLiveReload) {
+					// Escaped, so a quote or `</script>` in the path can't end the string or the script
+					const modulePathLiteral = JSON.stringify(modulePath).replace(/</g, '\\u003c');
+					const liveReloadScript = `
+						<script>
+							console.log('[Live Reload] Connecting to dev server...');
+							const eventSource = new EventSource('/events?module=' + encodeURIComponent(${modulePathLiteral}));
+							eventSource.onmessage = async function(event) {
+								if (event.data === 'reload') {
+									try {
+										// register the webViewer as modified in the global fmPromise variable
+										await fmPromise.performScript('fmPromise.onLiveReload', {
+											webViewerName: fmPromise.webViewerName, 
+											path : ${modulePathLiteral}
+										});
+									} catch (error) {
+										console.warn('Unable to set $$FMPROMISE_MODIFIED_WEBVIEWERS', error);
+									}
+									console.log('[Live Reload] Reloading page...');
+									window.location.reload();
 								}
-								console.log('[Live Reload] Reloading page...');
-								window.location.reload();
-							}
-						};
-						eventSource.onerror = function(err) {
-							console.error('[Live Reload] Connection error:', err);
-						};
-					</script>
-				`;
-				html += liveReloadScript
-			}
-			response.writeHead(200, {'Content-Type': 'text/html'});
-			response.end(html);
+							};
+							eventSource.onerror = function(err) {
+								console.error('[Live Reload] Connection error:', err);
+							};
+						</script>
+					`;
+					html += remoteConsoleScript(modulePath, logUrl) + liveReloadScript
+				}
+				// Encoded here rather than by buildModule, so the output includes the live reload scripts
+				const output = encodeModuleOutput(html, format, await readModuleInfo(modulePath, config.srcDir, config.root), build.buildTime);
+				const etag = `"${crypto.createHash('sha256').update(output.body).digest('hex').slice(0, 32)}"`;
+				if (request.headers['if-none-match'] === etag) {
+					response.writeHead(304, {ETag: etag, 'Cache-Control': 'no-cache'});
+					response.end();
+				} else {
+					response.writeHead(200, {'Content-Type': output.contentType, ETag: etag, 'Cache-Control': 'no-cache'});
+					response.end(output.body);
+				}
 
-			// --- NOT FOUND ---
-		} else {
-			response.writeHead(404, {'Content-Type': 'text/html'});
-			response.end('<h1>404 Not Found</h1><p>Please use /ping, /init, /build, or /info endpoints.</p>');
-		}
+				// --- NOT FOUND ---
+			} else {
+				response.writeHead(404, {'Content-Type': 'text/html'});
+				response.end('<h1>404 Not Found</h1><p>Please use /ping, /init, /build, /dev, /info, /types, /scripts, or /log endpoints.</p>');
+			}
 
-	} catch (error: any) {
-		console.error(`Error processing request ${method} ${pathname}:`, error);
-		if (error.code === 'ENOENT') {
-			response.writeHead(404, {'Content-Type': 'application/json'});
-			response.end(JSON.stringify({success: false, message: `Path not found: ${pathname}`}));
-		} else if (error.message.includes('Method not allowed')) {
-			response.writeHead(405, {'Content-Type': 'application/json'});
-			response.end(JSON.stringify({success: false, message: error.message}));
-		} else {
-			const isApiRoute = ['/init', '/info'].some(p => pathname.startsWith(p));
-			if (isApiRoute) {
-				response.writeHead(500, {'Content-Type': 'application/json'});
+		} catch (error: any) {
+			console.error(`Error processing request ${method} ${pathname}:`, error);
+			if (error.code === 'ENOENT') {
+				response.writeHead(404, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: false, message: `Path not found: ${pathname}`}));
+			} else if (error.code === 'EOUTSIDE') {
+				response.writeHead(403, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: false, message: 'Paths must be inside the source directory.'}));
+			} else if (error.code === 'EBADCONFIG') {
+				response.writeHead(400, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: false, message: error.message}));
+			} else if (error.code === 'ETOOLARGE') {
+				response.writeHead(413, {'Content-Type': 'application/json', Connection: 'close'});
+				response.end(JSON.stringify({success: false, message: error.message}));
+			} else if (error.code === 'EUNAUTHORIZED') {
+				response.writeHead(401, {'Content-Type': 'application/json'});
+				response.end(JSON.stringify({success: false, message: error.message}));
+			} else if (error.message.includes('Method not allowed')) {
+				response.writeHead(405, {'Content-Type': 'application/json'});
 				response.end(JSON.stringify({success: false, message: error.message}));
 			} else {
-				response.writeHead(500, {'Content-Type': 'text/html'});
-				response.end(`<h1>500 - Server Error</h1><pre>${error.message}</pre>`);
+				const isApiRoute = ['/init', '/info', '/types', '/scripts', '/log'].some(p => pathname.startsWith(p));
+				if (isApiRoute) {
+					response.writeHead(500, {'Content-Type': 'application/json'});
+					response.end(JSON.stringify({success: false, message: error.message}));
+				} else {
+					response.writeHead(500, {'Content-Type': 'text/html'});
+					response.end(`<h1>500 - Server Error</h1><pre>${error.message}</pre>`);
+				}
 			}
 		}
-	}
-});
+	});
 
-server.listen(PORT, () => {
-	console.log(`fmpromise-dev server started at http://localhost:${PORT}`);
-	const srcDir = path.join(process.cwd(), 'src');
-	console.log(`[Live Reload] Watching for file changes in: ${srcDir}`);
-	chokidar.watch(srcDir, {
-		ignored: /(^|[\/\\])\../,
-		persistent: true,
-		ignoreInitial: true,
-	}).on('all', () => {
-		sendReloadEvent();
+	server.listen(config.port, config.host, () => {
+		const isLoopback = ['127.0.0.1', 'localhost', '::1'].includes(config.host);
+		const serverUrl = `http://${isLoopback ? 'localhost' : config.host}:${config.port}`;
+		console.log(`fmpromise-dev server started at ${serverUrl}`);
+		if (config.token) {
+			console.log(`Use ${serverUrl}/t/${config.token} as the dev server address in FileMaker; POST routes and the remote console require the token.`);
+		} else if (!isLoopback) {
+			console.warn(`Warning: the dev server accepts connections from other machines without a token. Start it with --token to require one.`);
+		}
+		if (config.configFile) {
+			console.log(`Using settings from ${config.configFile}`);
+		}
+		console.log(`[Dev Mode] Load modules from ${serverUrl}${DEV_BASE}<module>/ for hot module replacement`);
+		console.log(`[Remote Console] Web viewer logs appear here and at ${serverUrl}${config.token ? `/t/${config.token}` : ''}/log`);
+		console.log(`[Live Reload] Watching for file changes in: ${config.srcDir}`);
+		if (config.scriptList) {
+			console.log(`[Scripts] Checking declared scripts against ${config.scriptList}; see ${serverUrl}/scripts`);
+		}
+		chokidar.watch(config.srcDir, {
+			ignored: config.watchIgnored,
+			persistent: true,
+			ignoreInitial: true,
+		}).on('all', (event, file) => {
+			// Added or removed files can change how imports resolve, so they invalidate every cached build
+			invalidateBuildCache(event === 'change' ? [file] : undefined);
+			queueReloadEvent(file);
+		});
 	});
-});
+	return server;
+};
@@ -0,0 +1,171 @@
+// sql.ts
+
+import {FMPromiseError} from './errors.js';
+import {FMFieldType, parseFieldValue} from './conversion.js';
+
+/**
+ * How a column returned by `executeSqlObjects` is converted from FileMaker's text output.
+ * FileMaker field types (such as `timeStamp` and `container`, from a `LayoutSchema`) are accepted too.
+ */
+export type SqlColumnType = 'text' | 'number' | 'date' | 'time' | 'timestamp' | 'boolean' | FMFieldType;
+
+/** Options for `executeSqlObjects`. */
+export interface SqlObjectOptions<T> {
+	/** Column conversions keyed by column name. Columns without an entry are returned as strings. */
+	types?: Partial<Record<keyof T & string, SqlColumnType>>;
+	/** Explicit column names, for queries whose SELECT list can't be parsed (e.g. `SELECT *`). */
+	columns?: Array<keyof T & string>;
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+	value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const isIdentifierChar = (c: string | undefined) => !!c && /[A-Za-z0-9_]/.test(c);
+
+/**
+ * Replaces `?` (and, when `named` is given, `:name`) placeholders with `?` bindings for `ExecuteSQL`.
+ * Array values expand to `?, ?, ?` for use with `IN (…)`; an empty array becomes `NULL`, which matches nothing.
+ * Placeholders inside quoted literals and identifiers are left alone.
+ */
+export const bindSqlParameters = (sql: string, positional: any[], named?: Record<string, any>): { sql: string; bindings: any[] } => {
+	const bindings: any[] = [];
+	let out = '';
+	let positionalIndex = 0;
+	let quote: string | null = null;
+
+	const bind = (value: any) => {
+		if (Array.isArray(value)) {
+			bindings.push(...value);
+			return value.length ? value.map(() => '?').join(', ') : 'NULL';
+		}
+		bindings.push(value);
+		return '?';
+	};
+
+	for (let i = 0; i < sql.length; i++) {
+		const c = sql[i];
+		if (quote) {
+			out += c;
+			if (c === quote) quote = null;
+		} else if (c === '\'' || c === '"') {
+			quote = c;
+			out += c;
+		} else if (c === '?') {
+			if (positionalIndex >= positional.length) {
+				throw new FMPromiseError({code: -1, message: 'executeSql has more ? placeholders than bindings.'});
+			}
+			out += bind(positional[positionalIndex++]);
+		} else if (named && c === ':' && isIdentifierChar(sql[i + 1]) && !isIdentifierChar(sql[i - 1]) && sql[i - 1] !== ':') {
+			const name = /^[A-Za-z0-9_]+/.exec(sql.slice(i + 1))![0];
+			if (!(name in named)) {
+				throw new FMPromiseError({code: -1, message: `No value was provided for the SQL parameter :${name}`});
+			}
+			out += bind(named[name]);
+			i += name.length;
+		} else {
+			out += c;
+		}
+	}
+
+	if (positionalIndex < positional.length) {
+		throw new FMPromiseError({code: -1, message: 'executeSql has more bindings than ? placeholders.'});
+	}
+	return {sql: out, bindings};
+};
+
+/**
+ * Normalizes the arguments of `executeSql`, which may be called as a tagged template literal,
+ * with a SQL string and positional bindings, or with a SQL string using `:name` placeholders and a single object of values.
+ */
+export const prepareSql = (sqlOrStrings: TemplateStringsArray | string, bindings: any[]): { sql: string; bindings: any[] } => {
+	if (Array.isArray(sqlOrStrings) && Array.isArray((sqlOrStrings as TemplateStringsArray).raw)) {
+		if (bindings.length !== sqlOrStrings.length - 1) {
+			throw new FMPromiseError({code: -1, message: 'Invalid template literal for executeSql'});
+		}
+		return bindSqlParameters((sqlOrStrings as TemplateStringsArray).join('?').replace(/\n\s*/g, ' '), bindings);
+	} else if (typeof sqlOrStrings === 'string') {
+		if (bindings.length === 1 && isPlainObject(bindings[0]) && /(^|[^A-Za-z0-9_:]):[A-Za-z_]/.test(sqlOrStrings)) {
+			return bindSqlParameters(sqlOrStrings, [], bindings[0]);
+		}
+		return bindSqlParameters(sqlOrStrings, bindings);
+	}
+	throw new FMPromiseError({
+		code: -1,
+		message: 'Invalid arguments: executeSql must be called with a SQL string, or as a template literal.'
+	});
+};
+
+/** Splits the SELECT list of a query into its column expressions. */
+const selectExpressions = (sql: string): string[] => {
+	const start = /^\s*select\s+(?:(?:distinct|all)\s+)?/i.exec(sql);
+	if (!start) {
+		throw new FMPromiseError({code: -1, message: 'executeSqlObjects only supports SELECT statements.'});
+	}
+	const expressions: string[] = [];
+	let current = '';
+	let depth = 0;
+	let quote: string | null = null;
+
+	for (let i = start[0].length; i < sql.length; i++) {
+		const c = sql[i];
+		if (quote) {
+			if (c === quote) quote = null;
+		} else if (c === '\'' || c === '"') {
+			quote = c;
+		} else if (c === '(') {
+			depth++;
+		} else if (c === ')') {
+			depth--;
+		} else if (depth === 0 && c === ',') {
+			expressions.push(current.trim());
+			current = '';
+			continue;
+		} else if (depth === 0 && /\s/.test(sql[i - 1]) && /^from\b/i.test(sql.slice(i))) {
+			break;
+		}
+		current += c;
+	}
+	expressions.push(current.trim());
+	return expressions;
+};
+
+const unquoteIdentifier = (identifier: string) => identifier.replace(/^"(.*)"$/, '$1');
+
+/**
+ * Returns the column names of a SELECT query: the `AS` alias of each column, or the field name of a plain column reference.
+ * @throws {FMPromiseError} If a column is `*` or an expression without an alias.
+ */
+export const parseSelectColumns = (sql: string): string[] => selectExpressions(sql).map((expression) => {
+	const alias = /\s+as\s+("[^"]+"|[A-Za-z_][A-Za-z0-9_]*)$/i.exec(expression);
+	if (alias) {
+		return unquoteIdentifier(alias[1]);
+	}
+	const reference = /^(?:(?:"[^"]+"|[A-Za-z_][A-Za-z0-9_]*)\.)?("[^"]+"|[A-Za-z_][A-Za-z0-9_]*)$/.exec(expression);
+	if (reference) {
+		return unquoteIdentifier(reference[1]);
+	}
+	throw new FMPromiseError({
+		code: -1,
+		message: `Unable to determine a column name for "${expression}". Add an AS alias, or pass the column names explicitly.`
+	});
+});
+
+/** Converts a single `ExecuteSQL` output value, which writes dates and timestamps in ISO format. Empty values become `null` for every type except `text`. */
+export const coerceSqlValue = (value: string, type: SqlColumnType = 'text'): any => {
+	if (type === 'boolean') {
+		return value === '' ? null : value !== '0';
+	}
+	return parseFieldValue(value, type === 'timestamp' ? 'timeStamp' : type, 2);
+};
+
+/** Converts `executeSql` rows into objects keyed by column name, applying any column conversions. */
+export const rowsToObjects = <T>(rows: string[][], columns: string[], types: Partial<Record<string, SqlColumnType>> = {}): T[] => rows.map((row) => {
+	if (row.length !== columns.length) {
+		throw new FMPromiseError({code: -1, message: `Expected ${columns.length} columns in the SQL result, but got ${row.length}.`});
+	}
+	const obj: Record<string, any> = {};
+	columns.forEach((column, i) => {
+		obj[column] = coerceSqlValue(row[i], types[column]);
+	});
+	return obj as T;
+});
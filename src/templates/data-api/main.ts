@@ -0,0 +1,42 @@
+import fmPromise from '@360works/fmpromise';
+
+// Generate interfaces for your layouts with `fmpromise-dev types` to type the records
+type Row = Record<string, any>;
+
+const layout = '{{LAYOUT}}';
+const titleField = '{{TITLE_FIELD}}';
+
+const list = document.getElementById('list')!;
+const detail = document.getElementById('detail')!;
+
+const showDetail = (record: Row) => {
+	detail.replaceChildren(...Object.entries(record)
+		.filter(([, value]) => !Array.isArray(value))
+		.map(([field, value]) => {
+			const row = document.createElement('tr');
+			const name = document.createElement('th');
+			const cell = document.createElement('td');
+			name.textContent = field;
+			cell.textContent = String(value);
+			row.append(name, cell);
+			return row;
+		}));
+};
+
+try {
+	// '*' finds every record with a title
+	const records = await fmPromise.executeFileMakerDataAPIRecords<Row>({action: 'read', layouts: layout, query: [{[titleField]: '*'}], limit: 100});
+	list.replaceChildren(...records.map(record => {
+		const item = document.createElement('li');
+		item.textContent = String(record[titleField] ?? record.recordId);
+		item.addEventListener('click', () => {
+			list.querySelector('.selected')?.classList.remove('selected');
+			item.classList.add('selected');
+			showDetail(record);
+		});
+		return item;
+	}));
+} catch (error) {
+	console.error(`Error reading records from the ${layout} layout:`, error);
+	list.textContent = `Unable to read records from the "${layout}" layout. Make sure you are running this in a FileMaker Web Viewer.`;
+}
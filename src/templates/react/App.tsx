@@ -0,0 +1,27 @@
+import {useEffect, useState} from 'react';
+import fmPromise from '@360works/fmpromise';
+
+export default function App() {
+	const [userName, setUserName] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		fmPromise.evaluate('Get(UserName)')
+			.then(setUserName)
+			.catch(e => {
+				console.error('Error fetching data from FileMaker:', e);
+				setError('Error communicating with FileMaker. Make sure you are running this in a FileMaker Web Viewer.');
+			});
+	}, []);
+
+	return (
+		<main>
+			{/* BEGIN FMPROMISE SCAFFOLD CODE. You should replace this with your own content */}
+			<h1>{'{{MODULE_NAME}}'}</h1>
+			<p>Module Path: <code>{'{{MODULE_PATH}}'}</code></p>
+			<div className="card">
+				{error ?? (userName === null ? 'Fetching FileMaker data...' : <p>Hello, <strong>{userName}</strong>!</p>)}
+			</div>
+		</main>
+	);
+}
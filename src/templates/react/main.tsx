@@ -0,0 +1,9 @@
+import {StrictMode} from 'react';
+import {createRoot} from 'react-dom/client';
+import App from './App';
+
+createRoot(document.getElementById('app')!).render(
+	<StrictMode>
+		<App/>
+	</StrictMode>
+);
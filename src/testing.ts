@@ -0,0 +1,178 @@
+// testing.ts
+
+/**
+ * A fake `window.FileMaker` for unit-testing fmPromise modules under vitest/jest with jsdom.
+ *
+ * The mock decodes the `fmPromise` script's meta + parameter envelope, routes each call to a handler
+ * registered for the script name, and answers through `fmPromise_Resolve` / `fmPromise_Reject`,
+ * just like the fmPromise add-on's FileMaker script does.
+ *
+ * Note: fmPromise waits up to 5 seconds for `window.FileMaker` to appear, so install the mock
+ * before (or shortly after) importing `@360works/fmpromise`.
+ */
+
+import type {FMPromiseScriptRunningOption} from './index.js';
+
+/** A single `PerformScript` call recorded by the mock. */
+export interface MockScriptCall {
+	/** The script the module asked for, e.g. `fmPromise.evaluate`. */
+	scriptName: string;
+	/** The script parameter, parsed as JSON when possible. */
+	parameter: any;
+	/** The script parameter exactly as sent to FileMaker. */
+	rawParameter: string;
+	promiseId: number;
+	webViewerName: string;
+	/** The running-script option; 0 for plain `PerformScript`. */
+	option: FMPromiseScriptRunningOption;
+	ignoreResult: boolean;
+}
+
+/**
+ * Handles a mocked script call. The return value (or resolved value) becomes the script result;
+ * objects are JSON-encoded, just as a FileMaker script returning JSON would be.
+ * Returning a string starting with `ERROR`, or throwing, rejects the call.
+ */
+export type MockScriptHandler = (parameter: any, call: MockScriptCall) => any;
+
+export interface MockFileMakerOptions {
+	/** Milliseconds to wait before answering each call. Defaults to 0 (the next macrotask). */
+	delay?: number;
+}
+
+export interface MockFileMaker {
+	/** Every call made since the mock was created or last reset, in order. */
+	readonly calls: MockScriptCall[];
+	/** Registers (or replaces) the handler for a script name. */
+	handle(scriptName: string, handler: MockScriptHandler): MockFileMaker;
+	/** Returns the recorded calls to a single script. */
+	callsTo(scriptName: string): MockScriptCall[];
+	/** Pushes an event into the module, as a FileMaker script would with Perform JavaScript in Web Viewer. Objects and arrays are sent as JSON. */
+	emit(eventName: string, payload?: any): void;
+	/** Clears recorded calls and registered handlers. */
+	reset(): void;
+	/** Detaches this mock; later script calls reject until another mock is created. */
+	uninstall(): void;
+}
+
+/** Builds a successful `fmPromise.executeFileMakerDataAPI` result for use in a handler. */
+export const dataAPIResult = (response: any = {}, code: string = '0', message: string = 'OK') => ({
+	messages: [{code, message}],
+	response,
+});
+
+let activeMock: { route: (scriptParam: string, option: FMPromiseScriptRunningOption) => void } | null = null;
+
+// A single stub is installed on `window`, because fmPromise keeps the first FileMaker object it sees.
+const fileMakerStub = {
+	PerformScript(script: string, scriptParam: string) {
+		this.PerformScriptWithOption(script, scriptParam, '0');
+	},
+	PerformScriptWithOption(script: string, scriptParam: string, option: string) {
+		if (script !== 'fmPromise') {
+			throw new Error(`[fmPromise mock] Unexpected script "${script}"; fmPromise always calls the "fmPromise" script.`);
+		}
+		if (!activeMock) {
+			throw new Error('[fmPromise mock] No mock FileMaker is installed.');
+		}
+		activeMock.route(scriptParam, Number(option) as FMPromiseScriptRunningOption);
+	},
+};
+
+const parseParameter = (rawParameter: string) => {
+	if (rawParameter.startsWith('{') || rawParameter.startsWith('[')) {
+		try {
+			return JSON.parse(rawParameter);
+		} catch (e) {
+			return rawParameter;
+		}
+	}
+	return rawParameter;
+};
+
+/**
+ * Installs a fake `window.FileMaker` and returns a handle for registering script handlers and inspecting calls.
+ * Creating a new mock replaces any previously installed one.
+ *
+ * @example
+ * const fm = createMockFileMaker().handle('fmPromise.evaluate', (expr) => expr.includes('Get(UserName)') ? 'Jesse' : '');
+ * expect(await fmPromise.evaluate('Get(UserName)')).toBe('Jesse');
+ * expect(fm.callsTo('fmPromise.evaluate')).toHaveLength(1);
+ */
+export const createMockFileMaker = (options: MockFileMakerOptions = {}): MockFileMaker => {
+	const handlers = new Map<string, MockScriptHandler>();
+	const calls: MockScriptCall[] = [];
+
+	const answer = async (call: MockScriptCall) => {
+		const handler = handlers.get(call.scriptName);
+		let result: any;
+		try {
+			if (!handler) {
+				throw {code: 104, message: `No mock handler for script "${call.scriptName}"`};
+			}
+			result = await handler(call.parameter, call);
+		} catch (e: any) {
+			const error = {message: e?.message ?? String(e), code: e?.code};
+			window.fmPromise_Reject(call.promiseId, JSON.stringify(error));
+			return;
+		}
+		if (result !== null && result !== undefined && typeof result !== 'string') {
+			result = JSON.stringify(result);
+		}
+		if (typeof result === 'string' && result.startsWith('ERROR')) {
+			window.fmPromise_Reject(call.promiseId, result);
+		} else {
+			window.fmPromise_Resolve(call.promiseId, result ?? '');
+		}
+	};
+
+	const mock: MockFileMaker = {
+		calls,
+		handle(scriptName, handler) {
+			handlers.set(scriptName, handler);
+			return mock;
+		},
+		callsTo(scriptName) {
+			return calls.filter(call => call.scriptName === scriptName);
+		},
+		emit(eventName, payload) {
+			// Objects and arrays arrive as JSON text, which the module parses; other values are passed as they are
+			window.fmPromise_Emit(eventName, payload !== null && typeof payload === 'object' ? JSON.stringify(payload) : payload);
+		},
+		reset() {
+			calls.length = 0;
+			handlers.clear();
+		},
+		uninstall() {
+			if (activeMock === router) activeMock = null;
+		},
+	};
+
+	const router = {
+		route(scriptParam: string, option: FMPromiseScriptRunningOption) {
+			const newline = scriptParam.indexOf('\n');
+			const meta = JSON.parse(newline >= 0 ? scriptParam.slice(0, newline) : scriptParam);
+			const rawParameter = newline >= 0 ? scriptParam.slice(newline + 1) : '';
+			const call: MockScriptCall = {
+				scriptName: meta.scriptName,
+				parameter: parseParameter(rawParameter),
+				rawParameter,
+				promiseId: meta.promiseId,
+				webViewerName: meta.webViewerName,
+				option,
+				ignoreResult: !!meta.ignoreResult,
+			};
+			calls.push(call);
+			if (call.ignoreResult) return;
+			setTimeout(() => answer(call), options.delay || 0);
+		},
+	};
+
+	activeMock = router;
+	// @ts-ignore
+	if (window.FileMaker !== fileMakerStub) {
+		// @ts-ignore
+		window.FileMaker = fileMakerStub;
+	}
+	return mock;
+};
@@ -0,0 +1,149 @@
+// typeGenerator.ts
+
+import type {DataAPIMetaDataResponse, FieldMetaData} from './types.js';
+
+/** Layout metadata keyed by layout name, as produced by `fmPromise.dataMetaForLayouts()`. */
+export type LayoutMetadataDump = Record<string, DataAPIMetaDataResponse | DataAPIMetaDataResponse['response']>;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const quoteKey = (key: string) => IDENTIFIER.test(key) ? key : JSON.stringify(key);
+
+/** Converts a FileMaker layout or portal name into a PascalCase TypeScript identifier. */
+const toTypeName = (name: string): string => {
+	const pascal = name
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean)
+		.map(word => word[0].toUpperCase() + word.slice(1))
+		.join('');
+	if (!pascal) return 'Layout';
+	return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+};
+
+/** Maps a FileMaker field result type to the TypeScript type the Data API returns for it. */
+const tsTypeForField = (field: FieldMetaData): string => {
+	switch (field.result) {
+		case 'number':
+			// Empty number fields come back as an empty string
+			return 'number | \'\'';
+		case 'text':
+		case 'date':
+		case 'time':
+		case 'timeStamp':
+		case 'container':
+			return 'string';
+		default:
+			return 'any';
+	}
+};
+
+/** Returns the `fieldData` keys for a field, expanding repeating fields into `name(n)` keys. */
+const keysForField = (field: FieldMetaData): string[] => {
+	if (!field.maxRepeat || field.maxRepeat <= 1) {
+		return [field.name];
+	}
+	const start = field.repetitionStart || 1;
+	const end = Math.min(field.repetitionEnd || field.maxRepeat, field.maxRepeat);
+	const keys: string[] = [];
+	for (let rep = start; rep <= end; rep++) {
+		keys.push(rep === 1 ? field.name : `${field.name}(${rep})`);
+	}
+	return keys;
+};
+
+const fieldLines = (fields: FieldMetaData[], indent: string): string[] => {
+	const lines: string[] = [];
+	for (const field of fields) {
+		const readonly = field.type === 'calculation' || field.type === 'summary' ? 'readonly ' : '';
+		const comment = [field.result, field.type !== 'normal' ? field.type : null, field.global ? 'global' : null]
+			.filter(Boolean)
+			.join(', ');
+		for (const key of keysForField(field)) {
+			lines.push(`${indent}/** ${comment} */`);
+			lines.push(`${indent}${readonly}${quoteKey(key)}: ${tsTypeForField(field)};`);
+		}
+	}
+	return lines;
+};
+
+/**
+ * Accepts either a layout-keyed dump, or a single `dataMeta()` response (in which case `layoutName` is required).
+ * Each entry may be the full response (with `messages`) or just its `response` object.
+ */
+export const normalizeMetadataDump = (json: any, layoutName?: string): Record<string, DataAPIMetaDataResponse['response']> => {
+	if (!json || typeof json !== 'object' || Array.isArray(json)) {
+		throw new Error('Layout metadata must be a JSON object.');
+	}
+	const unwrap = (entry: any) => (entry && entry.response && entry.messages ? entry.response : entry);
+	const single = unwrap(json);
+	if (single && Array.isArray(single.fieldMetaData)) {
+		if (!layoutName) {
+			throw new Error('A layout name is required when the metadata is a single dataMeta() response.');
+		}
+		return {[layoutName]: single};
+	}
+	const result: Record<string, DataAPIMetaDataResponse['response']> = {};
+	for (const [name, entry] of Object.entries(json)) {
+		const response = unwrap(entry);
+		if (!response || !Array.isArray(response.fieldMetaData)) {
+			throw new Error(`Metadata for layout "${name}" has no fieldMetaData.`);
+		}
+		result[name] = response;
+	}
+	return result;
+};
+
+/**
+ * Generates a `.d.ts` source with one set of interfaces per layout:
+ * - `<Layout>Fields` for the record's `fieldData`, suitable as the `T` for `dataRead<T>()`.
+ * - `<Layout><Portal>Row` for each portal's rows, and `<Layout>Portals` mapping portal names to row types,
+ *   suitable as the `P` for `dataRead<T, P>()`.
+ * - `FMLayouts` mapping each layout name to its interfaces, and `FMLayoutName` for checking layout names.
+ */
+export const generateLayoutTypes = (dump: LayoutMetadataDump): string => {
+	const layouts = normalizeMetadataDump(dump);
+	const usedNames = new Set<string>();
+	const uniqueName = (base: string) => {
+		let name = base;
+		for (let i = 2; usedNames.has(name); i++) name = `${base}${i}`;
+		usedNames.add(name);
+		return name;
+	};
+
+	const out: string[] = [
+		'// Generated by fmpromise-dev from FileMaker layout metadata. Do not edit by hand.',
+		'',
+	];
+	const layoutEntries: string[] = [];
+
+	for (const [layoutName, meta] of Object.entries(layouts)) {
+		const baseName = uniqueName(toTypeName(layoutName));
+		const fieldsName = `${baseName}Fields`;
+		const portalsName = `${baseName}Portals`;
+
+		out.push(`/** Fields on the "${layoutName}" layout. */`);
+		out.push(`export interface ${fieldsName} {`);
+		out.push(...fieldLines(meta.fieldMetaData || [], '\t'));
+		out.push('}', '');
+
+		const portalEntries: string[] = [];
+		for (const [portalName, portalFields] of Object.entries(meta.portalMetaData || {})) {
+			const rowName = uniqueName(`${baseName}${toTypeName(portalName)}Row`);
+			out.push(`/** A row in the "${portalName}" portal on the "${layoutName}" layout. */`);
+			out.push(`export interface ${rowName} {`);
+			out.push(...fieldLines(portalFields, '\t'));
+			out.push('\trecordId: string;', '\tmodId: string;', '}', '');
+			portalEntries.push(`\t${quoteKey(portalName)}: ${rowName};`);
+		}
+
+		out.push(`/** Portal row types on the "${layoutName}" layout, keyed by portal object name (or table occurrence name). */`);
+		out.push(`export interface ${portalsName} {`, ...portalEntries, '}', '');
+
+		layoutEntries.push(`\t${JSON.stringify(layoutName)}: { fields: ${fieldsName}; portals: ${portalsName} };`);
+	}
+
+	out.push('/** Every layout the types were generated from. */');
+	out.push('export interface FMLayouts {', ...layoutEntries, '}', '');
+	out.push('export type FMLayoutName = keyof FMLayouts;', '');
+	return out.join('\n');
+};
@@ -1,5 +1,7 @@
 // types.ts
 
+import type {FieldConverter} from './conversion.js';
+
 /**
  * Note: The interfaces in this file are intentionally written in a verbose, flat manner
  * without using `extends` or complex intersections. This significantly improves the
@@ -19,22 +21,38 @@ interface DataAPIMessage {
 // RECORD & HELPERS (Unchanged)
 // =================================================================
 
-export type DataAPIRecord<T> = T & {
+/**
+ * A record returned by `toRecords()`: its fieldData, plus one array per portal.
+ * `P` maps portal names to their row types, e.g. `{ LineItems: { 'LineItems::qty': number } }`.
+ */
+export type DataAPIRecord<T, P = {}> = T & {
+	[K in keyof P]: DataAPIPortalArray<P[K]>;
+} & {
 	recordId: string;
 	modId: string;
 };
 
-export interface DataAPIRecordArray<T> extends Array<DataAPIRecord<T>> {
+export interface DataAPIRecordArray<T, P = {}> extends Array<DataAPIRecord<T, P>> {
 	readonly foundCount: number;
 	readonly totalRecordCount: number;
 }
 
+/** The rows of a portal on a record returned by `toRecords()`, with the portal's `portalDataInfo`. */
+export interface DataAPIPortalArray<R> extends Array<R & { recordId: string; modId: string }> {
+	/** The number of related records in the portal, which may exceed the rows returned. */
+	readonly foundCount: number;
+	readonly returnedCount: number;
+	/** The portal's table occurrence name, as needed to delete related rows. */
+	readonly table: string;
+	readonly database: string;
+}
+
 
 // =================================================================
 // ACTION: "read" (Find Records)
 // =================================================================
 
-type SortObject = {
+export type SortObject = {
 	fieldName: string;
 	sortOrder: 'ascend' | 'descend';
 };
@@ -54,6 +72,14 @@ export interface PortalDataInfo {
 	returnedCount: number;
 }
 
+/** Paging for a single portal on a read request. */
+export interface PortalPaging {
+	/** The 1-based index of the first portal row to return. */
+	offset?: number;
+	/** The maximum number of portal rows to return. */
+	limit?: number;
+}
+
 /** The raw structure of a single record from the Data API `data` array. */
 interface RawDataAPIRecord<T> {
 	fieldData: T;
@@ -63,15 +89,24 @@ interface RawDataAPIRecord<T> {
 	portalDataInfo?: PortalDataInfo[];
 }
 
+/** A single find request: field names mapped to FileMaker find criteria. Set `omit: 'true'` to omit matching records. */
+export type DataAPIFindRequest = Record<string, string | number> & {
+	omit?: 'true' | 'false';
+};
+
 /** A find request performed using a query object. */
 export interface DataAPIReadByQueryRequest {
 	action: 'read';
 	layouts: string;
-	query: any[];
+	query: DataAPIFindRequest[];
 	limit?: number;
 	offset?: number;
 	sort?: SortObject[];
 	portal?: string[];
+	/** Offset and limit for individual portals, keyed by portal name. Sent as `offset.<portal>` / `limit.<portal>`. */
+	portalPaging?: Record<string, PortalPaging>;
+	/** How dates and timestamps are written: 0 US (default), 1 file locale, 2 ISO 8601. */
+	dateformats?: 0 | 1 | 2;
 	version?: 'v1' | 'v2' | 'vLatest';
 }
 
@@ -84,13 +119,17 @@ export interface DataAPIReadByRecordIdRequest {
 	offset?: number;
 	sort?: SortObject[];
 	portal?: string[];
+	/** Offset and limit for individual portals, keyed by portal name. Sent as `_offset.<portal>` / `_limit.<portal>`. */
+	portalPaging?: Record<string, PortalPaging>;
+	/** How dates and timestamps are written: 0 US (default), 1 file locale, 2 ISO 8601. */
+	dateformats?: 0 | 1 | 2;
 	version?: 'v1' | 'v2' | 'vLatest';
 }
 
 // This simple union of two flat interfaces is much easier for IDEs to parse.
 export type DataAPIReadRequest = DataAPIReadByQueryRequest | DataAPIReadByRecordIdRequest;
 
-export interface DataAPIReadResponse<T> {
+export interface DataAPIReadResponse<T, P = {}> {
 	messages: DataAPIMessage[];
 	response: {
 		dataInfo?: {
@@ -103,7 +142,8 @@ export interface DataAPIReadResponse<T> {
 		};
 		data?: Array<RawDataAPIRecord<T>>;
 	};
-	toRecords: () => DataAPIRecordArray<T>;
+	/** Flattens the response into records. Pass a `FieldConverter` to convert dates, numbers and containers using the layout's field types. */
+	toRecords: (converter?: FieldConverter) => DataAPIRecordArray<T, P>;
 }
 
 
@@ -114,6 +154,9 @@ export interface DataAPICreateRequest {
 	action: 'create';
 	layouts: string;
 	fieldData: Record<string, any>;
+	portalData?: Record<string, Array<Record<string, any>>>;
+	/** How dates and timestamps in fieldData are written: 0 US (default), 1 file locale, 2 ISO 8601. */
+	dateformats?: 0 | 1 | 2;
 	version?: 'v1' | 'v2' | 'vLatest';
 }
 
@@ -135,7 +178,10 @@ export interface DataAPIUpdateRequest {
 	recordId: number | string;
 	modId?: number | string;
 	fieldData?: Record<string, any>;
-	portalData?: Record<string, Array<{ recordId: number | string; [key: string]: any; }>>;
+	/** Portal rows to modify (with a `recordId`) or create (without one), keyed by portal name. */
+	portalData?: Record<string, Array<{ recordId?: number | string; modId?: number | string; [key: string]: any; }>>;
+	/** How dates and timestamps in fieldData are written: 0 US (default), 1 file locale, 2 ISO 8601. */
+	dateformats?: 0 | 1 | 2;
 	version?: 'v1' | 'v2' | 'vLatest';
 }
 
@@ -185,9 +231,31 @@ export interface DataAPIMetaDataByTableRequest {
 // A simple union of two flat, mutually exclusive interfaces.
 export type DataAPIMetaDataRequest = DataAPIMetaDataByLayoutRequest | DataAPIMetaDataByTableRequest;
 
+/** Metadata for a single field, as returned in `fieldMetaData` and `portalMetaData`. */
+export interface FieldMetaData {
+	name: string;
+	type: 'normal' | 'calculation' | 'summary' | 'invalid';
+	displayType: string;
+	result: 'text' | 'number' | 'date' | 'time' | 'timeStamp' | 'container';
+	global: boolean;
+	autoEnter: boolean;
+	fourDigitYear: boolean;
+	maxRepeat: number;
+	maxCharacters: number;
+	notEmpty: boolean;
+	numeric: boolean;
+	timeOfDay: boolean;
+	repetitionStart?: number;
+	repetitionEnd?: number;
+}
+
 export interface DataAPIMetaDataResponse {
 	messages: DataAPIMessage[];
-	response: Record<string, any>;
+	response: {
+		fieldMetaData?: FieldMetaData[];
+		portalMetaData?: Record<string, FieldMetaData[]>;
+		[key: string]: any;
+	};
 }
 
 // =================================================================
@@ -1,16 +1,61 @@
-import {build} from 'vite';
+import {build, Plugin} from 'vite';
 import {viteSingleFile} from 'vite-plugin-singlefile';
 import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
 import type {OutputAsset} from 'rollup';
+import {ResolvedDevConfig, resolveDevConfig, resolveInside} from './config.js';
+import {encodeModuleOutput, ModuleOutput, ModuleOutputFormat, readModuleInfo} from './outputFormats.js';
+import {findDeclaredScripts} from './scriptManifest.js';
+import {prepareModuleConfig} from './moduleConfig.js';
+
+export interface ModuleBuildResult {
+	/** The module as a single HTML file. */
+	html: string;
+	/** Absolute paths of the source files the module was built from, including its HTML file. */
+	dependencies: string[];
+	/** The FileMaker scripts declared with `defineScript` in the module's own source files. */
+	scripts: string[];
+	/** The HTML encoded in the requested output format. */
+	output: ModuleOutput;
+	/** When the module was built, as an ISO 8601 timestamp. */
+	buildTime: string;
+}
 
 // Update the function signature to accept the minify flag
-export const buildModule = async (moduleHtmlPath: string, minify: boolean, configJsonString?: string | null): Promise<string> => {
-	const absoluteInputFile = path.resolve(process.cwd(), 'src', moduleHtmlPath);
+export const buildModule = async (moduleHtmlPath: string, minify: boolean, configJsonString?: string | null, config: ResolvedDevConfig = resolveDevConfig(), format: ModuleOutputFormat = 'html'): Promise<ModuleBuildResult> => {
+	const absoluteInputFile = resolveInside(config.srcDir, moduleHtmlPath);
 	const buildRoot = path.dirname(absoluteInputFile);
+	// Checked before building, so a bad config fails fast
+	const moduleConfig = configJsonString ? await prepareModuleConfig(configJsonString, buildRoot) : null;
+
+	// Rollup's module ids include virtual modules (prefixed with \0) and query suffixes such as `?inline`.
+	// They're collected during the build, because the single-file plugin removes the chunks from the output.
+	const dependencies = new Set<string>([absoluteInputFile]);
+	if (moduleConfig?.schemaFile) dependencies.add(moduleConfig.schemaFile);
+	const scripts = new Set<string>();
+	const collectDependencies: Plugin = {
+		name: 'fmpromise-collect-dependencies',
+		transform(code, id) {
+			if (!id.startsWith('\0') && !id.includes('/node_modules/')) {
+				findDeclaredScripts(code).forEach(name => scripts.add(name));
+			}
+			return null;
+		},
+		buildEnd() {
+			for (const id of this.getModuleIds()) {
+				const file = id.split('?')[0];
+				if (!file.startsWith('\0') && path.isAbsolute(file)) {
+					dependencies.add(path.normalize(file));
+				}
+			}
+		},
+	};
 
 	const result = await build({
 		root: buildRoot,
-		plugins: [viteSingleFile()],
+		plugins: [...config.plugins, viteSingleFile(), collectDependencies],
+		resolve: {alias: config.alias},
 		logLevel: 'silent',
 		build: {
 			write: false,
@@ -38,8 +83,158 @@ export const buildModule = async (moduleHtmlPath: string, minify: boolean, confi
 	}
 
 	let finalHtml = htmlAsset.source;
-	if (configJsonString) {
-		finalHtml += `<script>window.FMPROMISE_CONFIG = ${configJsonString};</script>`;
+	if (moduleConfig) {
+		finalHtml += moduleConfig.script;
+	}
+	const info = await readModuleInfo(moduleHtmlPath, config.srcDir, config.root);
+	const buildTime = new Date().toISOString();
+	return {html: finalHtml, dependencies: [...dependencies], scripts: [...scripts].sort(), output: encodeModuleOutput(finalHtml, format, info, buildTime), buildTime};
+};
+
+// --- Build cache ---
+
+interface CachedBuild {
+	result: ModuleBuildResult;
+	/** SHA-256 hashes of the dependencies' contents when the module was built, keyed by absolute path. */
+	dependencyHashes: Record<string, string>;
+}
+
+/**
+ * A build cached in memory. The watcher only sees `srcDir`, so dependencies outside it (alias targets, linked packages,
+ * `node_modules`, the config file) are stamped with their modification time and size, and checked before the build is reused.
+ */
+interface MemoryCachedBuild extends CachedBuild {
+	externalStamps: Record<string, string>;
+}
+
+/** Cached builds keyed by module path and build options. Entries are dropped when a dependency changes. */
+const buildCache = new Map<string, MemoryCachedBuild>();
+/** Builds in progress, so concurrent requests for the same module and options share one build. Cleared by every invalidation. */
+const buildsInFlight = new Map<string, Promise<ModuleBuildResult>>();
+/** Incremented by every invalidation, so a build which overlapped a file change isn't cached. */
+let cacheGeneration = 0;
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+/** Hashes the contents of files; a missing file hashes as an empty string, which never matches a real hash. */
+const hashFiles = async (files: string[]): Promise<Record<string, string>> => {
+	const hashes: Record<string, string> = {};
+	for (const file of files) {
+		hashes[file] = await fs.readFile(file).then(sha256, () => '');
+	}
+	return hashes;
+};
+
+/** Stamps files with their modification time and size; a missing file stamps as an empty string. */
+const stampFiles = async (files: string[]): Promise<Record<string, string>> => {
+	const stamps: Record<string, string> = {};
+	for (const file of files) {
+		stamps[file] = await fs.stat(file).then(stats => `${stats.mtimeMs}:${stats.size}`, () => '');
+	}
+	return stamps;
+};
+
+const stampsMatch = async (expected: Record<string, string>): Promise<boolean> => {
+	const actual = await stampFiles(Object.keys(expected));
+	return Object.entries(expected).every(([file, stamp]) => stamp !== '' && actual[file] === stamp);
+};
+
+/** Caches a build in memory, unless the cache was invalidated since the build started. Returns whether it was cached. */
+const cacheInMemory = async (key: string, cached: CachedBuild, srcDir: string, generation: number): Promise<boolean> => {
+	const external = Object.keys(cached.dependencyHashes).filter(file => path.relative(srcDir, file).startsWith('..') || path.isAbsolute(path.relative(srcDir, file)));
+	const externalStamps = await stampFiles(external);
+	if (generation !== cacheGeneration) {
+		return false;
+	}
+	buildCache.set(key, {...cached, externalStamps});
+	return true;
+};
+
+const hashesMatch = async (expected: Record<string, string>): Promise<boolean> => {
+	const actual = await hashFiles(Object.keys(expected));
+	return Object.entries(expected).every(([file, hash]) => hash !== '' && actual[file] === hash);
+};
+
+const diskCachePath = (cacheDir: string, key: string) => path.join(cacheDir, sha256(key) + '.json');
+
+const readDiskCache = async (cacheDir: string, key: string): Promise<CachedBuild | null> => {
+	try {
+		const cached: CachedBuild & { key: string } = JSON.parse(await fs.readFile(diskCachePath(cacheDir, key), 'utf8'));
+		// Disk entries may predate any number of edits, so they're only used if every dependency is unchanged
+		return cached.key === key && await hashesMatch(cached.dependencyHashes) ? cached : null;
+	} catch (e) {
+		return null;
+	}
+};
+
+const writeDiskCache = async (cacheDir: string, key: string, cached: CachedBuild) => {
+	try {
+		await fs.mkdir(cacheDir, {recursive: true});
+		await fs.writeFile(diskCachePath(cacheDir, key), JSON.stringify({key, ...cached}), 'utf8');
+	} catch (e: any) {
+		console.warn(`Unable to write the build cache in ${cacheDir}: ${e.message || e}`);
+	}
+};
+
+/**
+ * `buildModule`, with results cached in memory (and on disk, when `buildCacheDir` is configured) until one of
+ * the module's source files changes. Concurrent calls for the same module and options share a single build.
+ * The cache relies on `invalidateBuildCache()` being called for file changes under `srcDir`; dependencies outside it are checked
+ * by modification time before a cached build is reused, and disk entries are checked against file hashes.
+ */
+export const buildModuleCached = async (moduleHtmlPath: string, minify: boolean, configJsonString?: string | null, config: ResolvedDevConfig = resolveDevConfig(), format: ModuleOutputFormat = 'html'): Promise<ModuleBuildResult> => {
+	const key = JSON.stringify([config.srcDir, path.normalize(moduleHtmlPath), minify, configJsonString || null, format]);
+	const cached = buildCache.get(key);
+	if (cached) {
+		if (await stampsMatch(cached.externalStamps)) {
+			return cached.result;
+		}
+		// Only drop the entry checked above, not one cached by a build which finished meanwhile
+		if (buildCache.get(key) === cached) buildCache.delete(key);
+	}
+	const inFlight = buildsInFlight.get(key);
+	if (inFlight) {
+		return inFlight;
+	}
+
+	const generation = cacheGeneration;
+	const promise: Promise<ModuleBuildResult> = (async () => {
+		const fromDisk = config.buildCacheDir ? await readDiskCache(config.buildCacheDir, key) : null;
+		if (fromDisk) {
+			await cacheInMemory(key, fromDisk, config.srcDir, generation);
+			return fromDisk.result;
+		}
+		const result = await buildModule(moduleHtmlPath, minify, configJsonString, config, format);
+		// The config file is a dependency too: it can change plugins and aliases
+		const dependencyHashes = await hashFiles(config.configFile ? [...result.dependencies, config.configFile] : result.dependencies);
+		if (await cacheInMemory(key, {result, dependencyHashes}, config.srcDir, generation) && config.buildCacheDir) {
+			await writeDiskCache(config.buildCacheDir, key, {result, dependencyHashes});
+		}
+		return result;
+	})().finally(() => {
+		// An invalidation may have replaced this build with a newer one
+		if (buildsInFlight.get(key) === promise) buildsInFlight.delete(key);
+	});
+	buildsInFlight.set(key, promise);
+	return promise;
+};
+
+/**
+ * Drops cached builds which depend on any of the given files, or every cached build if no files are given
+ * (e.g. when files are added or removed, which can change how imports resolve).
+ */
+export const invalidateBuildCache = (files?: string[]): void => {
+	cacheGeneration++;
+	// A build in progress may have read the old files, so later requests start a new one
+	buildsInFlight.clear();
+	if (!files) {
+		buildCache.clear();
+		return;
+	}
+	const changed = new Set(files.map(file => path.normalize(file)));
+	for (const [key, cached] of buildCache) {
+		if (Object.keys(cached.dependencyHashes).some(file => changed.has(file))) {
+			buildCache.delete(key);
+		}
 	}
-	return finalHtml;
 };
@@ -0,0 +1,67 @@
+import {createServer, ViteDevServer} from 'vite';
+import type http from 'http';
+import path from 'path';
+import fs from 'fs/promises';
+import {ResolvedDevConfig, resolveInside} from './config.js';
+import {prepareModuleConfig} from './moduleConfig.js';
+
+/** The URL prefix under which modules are served by the Vite dev server. */
+export const DEV_BASE = '/dev/';
+
+let devServerPromise: Promise<ViteDevServer> | null = null;
+
+/**
+ * Returns the Vite dev server used for `/dev/` requests, starting it on first use.
+ * It runs in middleware mode and attaches its HMR websocket to the given HTTP server, so everything is served from one port.
+ */
+export const getDevServer = (httpServer: http.Server, config: ResolvedDevConfig): Promise<ViteDevServer> => {
+	if (!devServerPromise) {
+		devServerPromise = createServer({
+			root: config.srcDir,
+			base: DEV_BASE,
+			plugins: config.plugins,
+			resolve: {alias: config.alias},
+			// HTML is served by renderDevModule, so fmPromise can add its own scripts
+			appType: 'custom',
+			logLevel: 'warn',
+			server: {
+				middlewareMode: true,
+				hmr: {server: httpServer},
+			},
+		}).catch((error) => {
+			devServerPromise = null;
+			throw error;
+		});
+	}
+	return devServerPromise;
+};
+
+/**
+ * Works out whether a path under `/dev/` is a module page.
+ * Returns `{modulePath}` for an HTML file (a module directory means its `index.html`), `{redirect: true}` for a module directory
+ * requested without a trailing slash (relative script URLs would resolve against the parent directory), or `null` for anything else.
+ * Paths outside the source directory throw an `EOUTSIDE` error.
+ */
+export const resolveDevModule = async (devPath: string, srcDir: string): Promise<{ modulePath: string; redirect?: boolean } | null> => {
+	const fullPath = resolveInside(srcDir, devPath);
+	if (devPath.toLowerCase().endsWith('.html')) {
+		return {modulePath: devPath};
+	}
+	const stats = await fs.stat(path.join(fullPath, 'index.html')).catch(() => null);
+	if (!stats?.isFile()) {
+		return null;
+	}
+	return {modulePath: path.join(devPath, 'index.html'), redirect: devPath !== '' && !devPath.endsWith('/')};
+};
+
+/** Reads a module's HTML and runs it through Vite's HTML transforms, which add the HMR client. */
+export const renderDevModule = async (devServer: ViteDevServer, modulePath: string, configJsonString?: string | null): Promise<string> => {
+	const absoluteInputFile = resolveInside(devServer.config.root, modulePath);
+	const html = await fs.readFile(absoluteInputFile, 'utf8');
+	// Vite expects the URL without its base, relative to the root
+	let finalHtml = await devServer.transformIndexHtml('/' + modulePath.split(path.sep).join('/'), html);
+	if (configJsonString) {
+		finalHtml += (await prepareModuleConfig(configJsonString, path.dirname(absoluteInputFile))).script;
+	}
+	return finalHtml;
+};